@@ -1,26 +1,223 @@
+import { randomBytes } from 'crypto';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
 import * as session from 'express-session';
-import * as fs from 'fs';
-import * as path from 'path';
 import type { createClient } from 'redis';
+import { SessionCache, SessionCacheOptions, sizeOf } from './cache';
 import { deepEqual } from './compare';
+import { SessionConflict } from './conflict';
+import { LegacyMigrationResult, LegacyStore, LegacyStoreOptions } from './legacy';
+import { SessionEviction, SessionLimitExceeded, SessionLimitPolicy } from './limit';
+import { BatchLoader, BatchLoaderOptions } from './loader';
+import { Cluster, isCluster, keyspaceNodes, nodeClients } from './cluster';
+import { Instrumentation, instrument, OperationContext } from './instrumentation';
+import { SESSION_EVENTS, SessionDestroyReason, SessionEventListener, SessionEventName, SessionEvents } from './events';
+import { migrateSession, SessionMigration } from './migrations';
+import { readLines, toLines } from './ndjson';
+import { ScriptCallOptions, ScriptManager, ScriptName } from './scripts';
 import serializer, { Serializer } from './serializer';
 
 type Client = ReturnType<typeof createClient>;
 
 const TOMBSTONE = 'TOMBSTONE';
+const TOMBSTONE_FIELD = '__tombstone';
+/* The prefix of the rotation tombstones written by previous versions (followed by the new session id). */
+const ROTATED_PREFIX = `${TOMBSTONE}:`;
+const MAX_FIELD_SNAPSHOTS = 1000;
+/* The default number of batches processed concurrently by bulk operations (see {@link BulkOptions.concurrency}). */
+const BULK_CONCURRENCY = 4;
+const SCRIPTS: ScriptName[] = [
+	'set',
+	'set-hash',
+	'touch',
+	'destroy',
+	'index',
+	'rewrite',
+	'rotate',
+	'copy',
+	'quarantine',
+];
+/* The maximum number of attempts to rotate a session modified during its rotation on a cluster. */
+const MAX_ROTATION_ATTEMPTS = 3;
+/* The duration in seconds quarantined session values are retained. */
+const QUARANTINE_TTL_SECONDS = 7 * 24 * 60 * 60;
 
-const loadLuaScript = (fileName: string) => {
-	const filePath = path.resolve(__dirname, `../lua/${fileName}.lua`);
-	const file = fs.readFileSync(filePath, 'utf8');
-	return file.trim();
+const toRecord = (pairs: string[]) => {
+	const record: Record<string, string> = {};
+	for (let i = 0; i < pairs.length; i += 2) {
+		record[pairs[i]] = pairs[i + 1];
+	}
+	return record;
+};
+
+/**
+ * Create the value of a tombstone recording when and why the session was destroyed.
+ *
+ * @param reason
+ * @param rotatedTo - the new id of a rotated session.
+ *
+ * @return the tombstone value (prefixed with the bare tombstone marker, so that tombstones are recognized by prefix).
+ */
+const createTombstone = (reason: string, rotatedTo?: string) =>
+	`${TOMBSTONE}${JSON.stringify({ destroyedAt: Date.now(), reason, rotatedTo })}`;
+
+/**
+ * Parse the value of a tombstone, including the bare markers written by previous versions.
+ *
+ * @param value
+ *
+ * @return the tombstone record.
+ */
+const parseTombstone = (value: string): TombstoneRecord => {
+	if (value.startsWith(ROTATED_PREFIX)) {
+		return { destroyedAt: null, reason: 'rotated', rotatedTo: value.substring(ROTATED_PREFIX.length) };
+	}
+
+	try {
+		const record = JSON.parse(value.substring(TOMBSTONE.length)) as Record<string, unknown>;
+		return {
+			destroyedAt: typeof record.destroyedAt === 'number' ? new Date(record.destroyedAt) : null,
+			reason: typeof record.reason === 'string' ? record.reason : null,
+			rotatedTo: typeof record.rotatedTo === 'string' ? record.rotatedTo : null,
+		};
+	} catch {
+		return { destroyedAt: null, reason: null, rotatedTo: null };
+	}
+};
+
+/**
+ * Get the tombstone value of a stored value.
+ *
+ * @param stored - a serialized string value or a record of serialized fields.
+ *
+ * @return the tombstone value (or `null` if the stored value is not a tombstone).
+ */
+const tombstoneOf = (stored: StoredValue) => {
+	const marker = typeof stored === 'string' ? stored : stored[TOMBSTONE_FIELD];
+	return marker?.startsWith(TOMBSTONE) ? marker : null;
+};
+
+const isRecord = (value: unknown): value is Record<string, string> =>
+	!!value &&
+	typeof value === 'object' &&
+	!Array.isArray(value) &&
+	Object.values(value).every(field => typeof field === 'string');
+
+/**
+ * Parse a line of an export (see {@link RedisStoreAdapter.export}).
+ *
+ * @param text
+ * @param line - the line number, used in the error message.
+ *
+ * @return the session record.
+ */
+const parseSessionRecord = (text: string, line: number): SessionRecord => {
+	let record: Partial<SessionRecord> | null;
+	try {
+		record = JSON.parse(text) as Partial<SessionRecord> | null;
+	} catch {
+		record = null;
+	}
+
+	const { id, value, pttl } = record ?? {};
+	if (typeof id !== 'string' || typeof pttl !== 'number' || !(typeof value === 'string' || isRecord(value))) {
+		throw new Error(`Invalid session record on line ${line}`);
+	}
+
+	return { id, value, pttl };
+};
+
+/**
+ * Check whether a serializer encodes sessions as JSON objects exposing a numeric `lastModified` field, which the `set`
+ * script reads to compare versions in the `string` storage mode (see {@link RedisStoreAdapterOptions.optimisticLocking}).
+ *
+ * @param codec
+ *
+ * @return `false` for opaque serializers and serializers failing to encode a probe session as expected.
+ */
+const exposesVersion = (codec: Serializer) => {
+	if (codec.opaque) return false;
+
+	try {
+		const probe = { cookie: {}, lastModified: new Date(1) } as session.SessionData;
+		const encoded = JSON.parse(codec.stringify(probe)) as { lastModified?: unknown } | null;
+		return encoded?.lastModified === 1;
+	} catch {
+		return false;
+	}
 };
 
+/* Tenant ids may not contain glob metacharacters (breaking `MATCH` patterns) or the separator of the tenant prefix. */
+const TENANT_ID_PATTERN = /^[^*?[\]\\:\s]+$/;
+
+/* Tenant ids reserved for auxiliary keys, whose tenant prefixes would fall within the auxiliary key namespace. */
+const RESERVED_TENANT_IDS = ['users', 'quarantine', 'tombstones'];
+
+/* The suffixes (after the store prefix) of the keys of user indexes, quarantined values and tombstone registries. */
+const AUXILIARY_KEY_PATTERN = /^([^:]+:)?(users:|quarantine:|tombstones$)/;
+
+const escapeGlob = (pattern: string) => pattern.replace(/[*?[\]\\]/g, '\\$&');
+
+/**
+ * A position in the scan of the keyspace: the node id, the `SCAN` cursor of the node and the last key consumed from
+ * the batch returned by the cursor (or `null` if none was consumed).
+ */
+type PagePosition = [string, number, string | null];
+
+/* Cursors are URL-safe base64 (the `base64url` encoding is not supported by Node 12). */
+const encodeCursor = (position: PagePosition) =>
+	Buffer.from(JSON.stringify(position)).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+const decodeCursor = (cursor: string): PagePosition => {
+	try {
+		const position = JSON.parse(
+			Buffer.from(cursor.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString(),
+		) as unknown;
+		if (
+			Array.isArray(position) &&
+			position.length === 3 &&
+			typeof position[0] === 'string' &&
+			Number.isInteger(position[1]) &&
+			(typeof position[2] === 'string' || position[2] === null)
+		) {
+			return position as PagePosition;
+		}
+	} catch {
+		// Reported below
+	}
+
+	throw new Error(`Invalid page cursor \`${cursor}\``);
+};
+
+const generateSessionId = () =>
+	randomBytes(24).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+/**
+ * The layout of stored sessions: a serialized string value or a hash of serialized top-level fields.
+ */
+export type StorageMode = 'string' | 'hash';
+
+/**
+ * The handling of stored session values that cannot be decoded (e.g. invalid JSON, an unsupported format or a truncated
+ * write):
+ * - `throw`: the error is reported by the operation.
+ * - `missing`: the session is treated as missing.
+ * - `quarantine`: the session is treated as missing, and the stored value is moved to a quarantine key (see
+ *   {@link RedisStoreAdapter.quarantineKey}).
+ */
+export type ParseErrorPolicy = 'throw' | 'missing' | 'quarantine';
+
+/**
+ * A stored session value: a serialized string or a record of serialized fields (in the `hash` storage mode).
+ */
+export type StoredValue = string | Record<string, string>;
+
 /**
  * Configuration options for {@link RedisStoreAdapter}.
  */
 export interface RedisStoreAdapterOptions {
-	/* A V4 redis client. */
-	client: Client | Client['v4'];
+	/* A V4 redis client or cluster client. */
+	client: Client | Client['v4'] | Cluster;
 	/* Prefix for stored session keys. */
 	prefix?: string;
 	/* The maximum number of keys to batch in Redis calls. */
@@ -29,8 +226,213 @@ export interface RedisStoreAdapterOptions {
 	ttlSeconds?: number | false;
 	/* The duration in seconds after tombstone records are removed from the store. */
 	concurrencyGraceSeconds?: number;
+	/* The maximum duration in seconds of a session since its creation, regardless of activity. */
+	maxLifetimeSeconds?: number | false;
 	/* A custom serializer for encoding/decoding {@link session.SessionData} instances as Redis string values */
 	serializer?: Serializer;
+	/* Extracts the id of the user owning a session; enables the per-user session index when provided. */
+	getUserId?: (sessionData: session.SessionData) => string | null | undefined;
+	/* The maximum number of sessions of a user (requires {@link RedisStoreAdapterOptions.getUserId}). */
+	maxSessionsPerUser?: number | false;
+	/* The handling of a new session exceeding {@link RedisStoreAdapterOptions.maxSessionsPerUser}. */
+	sessionLimitPolicy?: SessionLimitPolicy;
+	/* Rejects writes when the stored session was modified since it was loaded (compared by `lastModified`). */
+	optimisticLocking?: boolean;
+	/* The layout of stored sessions; the `hash` mode stores top-level fields separately and only writes changed fields. */
+	storage?: StorageMode;
+	/* Registers the Lua scripts as a Redis 7 function library (falls back to cached scripts if unsupported). */
+	useFunctions?: boolean;
+	/* The ordered list of migrations upgrading stored sessions to the latest schema version when they are read. */
+	migrations?: SessionMigration[];
+	/* Writes sessions upgraded by a migration back to the store when they are read. */
+	writeBackMigrations?: boolean;
+	/* Records tombstones so that an {@link ExpirationSubscriber} can tell them apart from expired sessions. */
+	expirationEvents?: boolean;
+	/* Caches sessions read by `get` in-process, invalidated when sessions are written by any store instance. */
+	cache?: SessionCacheOptions | boolean;
+	/* Coalesces the `get` and `touch` calls made during an iteration of the event loop into batches (`true` uses the defaults). */
+	batching?: BatchLoaderOptions | boolean;
+	/* Hooks called when store operations start, end or fail (e.g. for metrics and tracing). */
+	instrumentation?: Instrumentation;
+	/* The handling of stored session values that cannot be decoded. */
+	onParseError?: ParseErrorPolicy;
+	/* Computes the key prefix of a tenant (see {@link RedisStoreAdapter.tenant}). */
+	tenantPrefix?: (tenantId: string) => string;
+	/* Reads the sessions missing from the store from a `connect-redis` store, migrating them (`true` uses the defaults). */
+	legacy?: LegacyStoreOptions | boolean;
+}
+
+/**
+ * The scope of a bulk operation.
+ */
+export interface TenantScope {
+	/* The tenant whose sessions are processed (see {@link RedisStoreAdapter.tenant}). */
+	tenant?: string;
+}
+
+/**
+ * The progress of a bulk operation, reported after each batch of keys.
+ */
+export interface BulkProgress {
+	/* The number of keys scanned. */
+	scanned: number;
+	/* The number of keys affected (sessions destroyed, counted or read). */
+	affected: number;
+}
+
+/**
+ * Options for the bulk operations ({@link RedisStoreAdapter.clear}, {@link RedisStoreAdapter.length} and
+ * {@link RedisStoreAdapter.all}).
+ */
+export interface BulkOptions extends TenantScope {
+	/* The maximum number of batches of keys processed concurrently. */
+	concurrency?: number;
+	/* Stops scanning further keys; the operation then resolves with partial results. */
+	signal?: AbortSignal;
+	/* Called after each processed batch of keys. */
+	onProgress?: (progress: BulkProgress) => void;
+}
+
+/**
+ * Options for {@link RedisStoreAdapter.clear}.
+ */
+export interface ClearOptions extends BulkOptions {
+	/* The reason recorded by the tombstones (defaults to `clear`). */
+	reason?: string;
+}
+
+/**
+ * Options for {@link RedisStoreAdapter.destroyAllForUser}.
+ */
+export interface DestroyAllForUserOptions {
+	/* Session ids to exclude (e.g. the session of the current request). */
+	except?: string | string[];
+	/* Use tombstones for concurrency safety. */
+	useTombstones?: boolean;
+	/* The reason recorded by the tombstones (defaults to `user`). */
+	reason?: string;
+}
+
+/**
+ * The metadata recorded by a tombstone (unknown fields are `null` for the bare tombstones of previous versions).
+ */
+export interface TombstoneRecord {
+	/* When the session was destroyed. */
+	destroyedAt: Date | null;
+	/* The reason passed to `destroy` or `clear`, or the cause of the destruction (see {@link SessionDestroyReason}). */
+	reason: string | null;
+	/* The new id of a rotated session (see {@link RedisStoreAdapter.rotate}). */
+	rotatedTo: string | null;
+}
+
+/**
+ * The state of a stored session:
+ * - `active`: the session is stored.
+ * - `tombstoned`: the session was destroyed and replaced by a tombstone.
+ * - `missing`: the session was never stored, expired or was destroyed without a tombstone (or its tombstone expired).
+ */
+export type SessionState = 'active' | 'tombstoned' | 'missing';
+
+/**
+ * The result of {@link RedisStoreAdapter.inspect}.
+ */
+export interface SessionInspection {
+	state: SessionState;
+	/* The remaining TTL in milliseconds (or `null` if the key is missing or does not expire). */
+	ttlMs: number | null;
+	/* When the key expires (or `null` if the key is missing or does not expire). */
+	expiresAt: Date | null;
+	/* The size in bytes of the stored value. */
+	bytes: number;
+	/* When the session was last written (or `null` if it is not active or cannot be decoded). */
+	lastModified: Date | null;
+	/* The metadata of the tombstone (or `null` if the session is not tombstoned). */
+	tombstone: TombstoneRecord | null;
+}
+
+/**
+ * Options for {@link RedisStoreAdapter.iterate}, {@link RedisStoreAdapter.iterateBatches} and
+ * {@link RedisStoreAdapter.stream}.
+ */
+export interface IterateOptions<T = session.SessionData> {
+	/* Selects the sessions to yield. */
+	filter?: (sessionData: session.SessionData, sessionId: string) => boolean;
+	/* Projects the sessions to yield (e.g. to the fields needed by an admin job). */
+	map?: (sessionData: session.SessionData, sessionId: string) => T;
+	/* The maximum number of batches fetched concurrently (including the batch awaiting the consumer). */
+	concurrency?: number;
+}
+
+/**
+ * Options for {@link RedisStoreAdapter.page}.
+ */
+export interface PageOptions {
+	/* The cursor returned with the previous page (omitted for the first page). */
+	cursor?: string | null;
+	/* The number of sessions per page. */
+	limit?: number;
+}
+
+/**
+ * A page of sessions returned by {@link RedisStoreAdapter.page}.
+ */
+export interface SessionPage {
+	/* The sessions of the page. */
+	sessions: SessionDataDict;
+	/* The opaque cursor of the next page (or `null` if the scan is complete). */
+	nextCursor: string | null;
+}
+
+/**
+ * A stored session value that cannot be decoded, reported by {@link RedisStoreAdapter.scanCorrupt}.
+ */
+export interface CorruptEntry {
+	sessionId: string;
+	key: string;
+	/* The message of the decoding error. */
+	error: string;
+}
+
+/**
+ * A stored session exported by {@link RedisStoreAdapter.export} (one NDJSON line).
+ */
+export interface SessionRecord {
+	/* The session id (without the key prefix). */
+	id: string;
+	/* The stored value, as serialized by the exporting store. */
+	value: StoredValue;
+	/* The remaining TTL in milliseconds (or `-1` if the session does not expire). */
+	pttl: number;
+}
+
+/**
+ * Options for {@link RedisStoreAdapter.export}.
+ */
+export interface ExportOptions extends TenantScope {
+	/* Include tombstones, so that destroyed sessions are not restored by stale writes after the import. */
+	includeTombstones?: boolean;
+}
+
+/**
+ * Options for {@link RedisStoreAdapter.import}.
+ */
+export interface ImportOptions extends TenantScope {
+	/* Replace existing sessions (otherwise records of existing session ids are skipped). */
+	overwrite?: boolean;
+	/* The prefix of the restored keys (defaults to the prefix of the store). */
+	prefix?: string;
+	/* The serializer of the exported values; values are then re-serialized with the serializer of the store. */
+	serializer?: Serializer;
+}
+
+/**
+ * The result of {@link RedisStoreAdapter.import}.
+ */
+export interface ImportResult {
+	/* The number of sessions (and tombstones) restored. */
+	imported: number;
+	/* The number of records skipped, as the session exists or the record expired. */
+	skipped: number;
 }
 
 /**
@@ -53,32 +455,123 @@ export interface SessionComparison {
 }
 
 /**
- * A Promise-based implementation of a Redis session store.
+ * Typed overloads of the {@link EventEmitter} methods for session lifecycle events.
  */
-export class RedisStoreAdapter {
+export interface RedisStoreAdapter {
+	on<E extends SessionEventName>(event: E, listener: SessionEventListener<E>): this;
+	on(event: 'error', listener: (error: unknown) => void): this;
+	once<E extends SessionEventName>(event: E, listener: SessionEventListener<E>): this;
+	once(event: 'error', listener: (error: unknown) => void): this;
+	off<E extends SessionEventName>(event: E, listener: SessionEventListener<E>): this;
+	off(event: 'error', listener: (error: unknown) => void): this;
+	emit<E extends SessionEventName>(event: E, payload: SessionEvents[E]): boolean;
+	emit(event: 'error', error: unknown): boolean;
+}
+
+/**
+ * A Promise-based implementation of a Redis session store, emitting session lifecycle events (see
+ * {@link SessionEvents}).
+ */
+export class RedisStoreAdapter extends EventEmitter {
 	readonly client: Client;
+	/* Indicates whether the client is a cluster client. */
+	readonly cluster: boolean;
 	readonly prefix: string;
 	readonly scanCount: number;
 	readonly ttlSeconds: number | false;
 	readonly concurrencyGraceSeconds: number;
+	readonly maxLifetimeSeconds: number | false;
 	readonly serializer: Serializer;
-	protected readonly _scripts: { set: string; touch: string };
+	readonly getUserId?: (sessionData: session.SessionData) => string | null | undefined;
+	readonly maxSessionsPerUser: number | false;
+	readonly sessionLimitPolicy: SessionLimitPolicy;
+	readonly optimisticLocking: boolean;
+	readonly storage: StorageMode;
+	readonly migrations: SessionMigration[];
+	/* The latest schema version of stored sessions (i.e. the number of migrations). */
+	readonly schemaVersion: number;
+	readonly writeBackMigrations: boolean;
+	readonly expirationEvents: boolean;
+	/* The in-process session cache (only caches sessions once started with {@link SessionCache.start}). */
+	readonly cache: SessionCache | null;
+	readonly instrumentation: Instrumentation | null;
+	readonly onParseError: ParseErrorPolicy;
+	readonly tenantPrefix: (tenantId: string) => string;
+	/* The legacy store sessions are migrated from (or `null` if disabled). */
+	readonly legacy: LegacyStore | null;
+	protected readonly _options: RedisStoreAdapterOptions;
+	protected readonly _scripts: ScriptManager;
+	/* Loads the stored values read by `get` in batches (or `null` if batching is disabled). */
+	protected readonly _getLoader: BatchLoader<string, StoredValue | null> | null;
+	/* Runs the scripts of `touch` calls in batches (or `null` if batching is disabled). */
+	protected readonly _touchLoader: BatchLoader<ScriptCallOptions, unknown> | null;
+	/* The serialized fields of the sessions last read or written (keyed by session id) for partial `hash` writes. */
+	protected readonly _fields = new Map<string, { version: string; fields: Record<string, string> }>();
+	/* The adapters scoped to a tenant (keyed by tenant id). */
+	protected readonly _tenants = new Map<string, RedisStoreAdapter>();
 
 	constructor(options: RedisStoreAdapterOptions) {
+		super();
+
 		if (!options.client) {
 			throw new Error('Missing mandatory `client` option for `RedisStore`');
 		}
 
 		this.client = options.client as Client;
+		this.cluster = isCluster(options.client);
 		this.prefix = options.prefix ?? 'sessions:';
 		this.scanCount = options.scanCount ?? 100;
 		this.ttlSeconds = options.ttlSeconds ?? 86400;
 		this.concurrencyGraceSeconds = options.concurrencyGraceSeconds ?? 300;
+		this.maxLifetimeSeconds = options.maxLifetimeSeconds ?? false;
 		this.serializer = options.serializer ?? serializer;
-		this._scripts = {
-			set: loadLuaScript('set'),
-			touch: loadLuaScript('touch'),
-		};
+		this.getUserId = options.getUserId;
+		this.maxSessionsPerUser = options.maxSessionsPerUser ?? false;
+		this.sessionLimitPolicy = options.sessionLimitPolicy ?? 'evict-oldest';
+		this.optimisticLocking = options.optimisticLocking ?? false;
+		this.storage = options.storage ?? 'string';
+		this.migrations = options.migrations ?? [];
+		this.schemaVersion = this.migrations.length;
+		this.writeBackMigrations = options.writeBackMigrations ?? false;
+		this.expirationEvents = options.expirationEvents ?? false;
+		this.instrumentation = options.instrumentation ?? null;
+		this.onParseError = options.onParseError ?? 'throw';
+		this.tenantPrefix = options.tenantPrefix ?? (tenantId => `${this.prefix}${tenantId}:`);
+		this._options = options;
+		this.cache = options.cache
+			? new SessionCache(this.client, this.prefix, options.cache === true ? {} : options.cache)
+			: null;
+		this.legacy = options.legacy
+			? new LegacyStore(this.client, options.legacy === true ? {} : options.legacy)
+			: null;
+		this._scripts = new ScriptManager(this.client, SCRIPTS, { useFunctions: options.useFunctions });
+
+		const batching = options.batching === true ? {} : options.batching;
+		this._getLoader = batching ? new BatchLoader(keys => this._fetch(keys), batching) : null;
+		this._touchLoader = batching
+			? new BatchLoader<ScriptCallOptions, unknown>(calls => this._runBatch('touch', calls), {
+					...batching,
+					keyOf: call => JSON.stringify(call),
+			  })
+			: null;
+
+		if (this.storage === 'hash' && !(this.serializer.parseFields && this.serializer.stringifyFields)) {
+			throw new Error(
+				'The `hash` storage mode requires a serializer implementing `parseFields` and `stringifyFields`',
+			);
+		}
+		if (this.optimisticLocking && this.storage === 'string' && !exposesVersion(this.serializer)) {
+			throw new Error(
+				'The `optimisticLocking` option (enabled by the `merge` option) requires a serializer encoding sessions as ' +
+					'JSON objects with a numeric `lastModified` field in the `string` storage mode',
+			);
+		}
+		if (this.maxSessionsPerUser && !this.getUserId) {
+			throw new Error('The `maxSessionsPerUser` option requires the `getUserId` option');
+		}
+		if (this.legacy?.prefix === this.prefix) {
+			throw new Error('The prefix of the legacy store must differ from the prefix of the store');
+		}
 	}
 
 	/**
@@ -92,20 +585,111 @@ export class RedisStoreAdapter {
 		return `${this.prefix}${sessionId}`;
 	}
 
+	/**
+	 * Get an adapter scoped to a tenant, storing sessions under the key prefix of the tenant (see
+	 * {@link RedisStoreAdapterOptions.tenantPrefix}); its session lifecycle events are also emitted by this adapter.
+	 *
+	 * @remarks scoped adapters are created once per tenant, with the options of this adapter except for the `cache`.
+	 *
+	 * @param tenantId - may not be empty, contain whitespace, glob metacharacters (`*?[]\`) or colons, or be a reserved
+	 * name (`users`, `quarantine` or `tombstones`).
+	 *
+	 * @return the scoped adapter.
+	 */
+	tenant(tenantId: string) {
+		if (!TENANT_ID_PATTERN.test(tenantId) || RESERVED_TENANT_IDS.includes(tenantId)) {
+			throw new Error(`Invalid tenant id \`${tenantId}\``);
+		}
+
+		let adapter = this._tenants.get(tenantId);
+		if (!adapter) {
+			adapter = new RedisStoreAdapter({
+				...this._options,
+				prefix: this.tenantPrefix(tenantId),
+				tenantPrefix: undefined,
+				cache: false,
+			});
+			SESSION_EVENTS.forEach(name => adapter?.on(name, event => this.emit(name, event)));
+			this._tenants.set(tenantId, adapter);
+		}
+
+		return adapter;
+	}
+
+	/**
+	 * Get the Redis key of the index listing the sessions of a user.
+	 *
+	 * @param userId
+	 *
+	 * @return the prefixed Redis key.
+	 */
+	userKey(userId: string) {
+		return `${this.prefix}users:${userId}`;
+	}
+
+	/**
+	 * Get the Redis key of the registry of tombstones (see {@link RedisStoreAdapterOptions.expirationEvents}).
+	 *
+	 * @return the prefixed Redis key.
+	 */
+	tombstonesKey() {
+		return `${this.prefix}tombstones`;
+	}
+
+	/**
+	 * Get the Redis key of a quarantined session value (see {@link RedisStoreAdapterOptions.onParseError}).
+	 *
+	 * @param sessionId
+	 *
+	 * @return the prefixed Redis key.
+	 */
+	quarantineKey(sessionId: string) {
+		return `${this.prefix}quarantine:${sessionId}`;
+	}
+
+	/**
+	 * Check whether a Redis key under the store prefix is a session key (i.e. not a user index, the registry of
+	 * tombstones or a quarantined value, of the store or of a tenant using the default tenant prefix).
+	 *
+	 * @param key
+	 *
+	 * @return `true` for session keys.
+	 */
+	isSessionKey(key: string) {
+		return key.startsWith(this.prefix) && !AUXILIARY_KEY_PATTERN.test(key.substring(this.prefix.length));
+	}
+
 	/**
 	 * Check the TTL in milliseconds of a provided session object.
 	 *
-	 * @remarks uses the session cookie `expires` field or falls back to {@link RedisStoreAdapter.ttlSeconds}.
+	 * @remarks uses the session cookie `expires` field or falls back to {@link RedisStoreAdapter.ttlSeconds}; the TTL
+	 * is clamped to the remaining lifetime of the session (see {@link RedisStoreAdapter.checkLifetimeMilliseconds}).
 	 *
 	 * @param sessionData
 	 *
 	 * @return the duration in milliseconds after which the provided session should expire.
 	 */
 	checkTtlMilliseconds(sessionData: session.SessionData) {
-		if (sessionData?.cookie?.expires !== undefined) {
-			return sessionData.cookie.expires.getTime() - Date.now();
-		}
-		return (this.ttlSeconds || 0) * 1000;
+		const ttlMilliseconds =
+			sessionData?.cookie?.expires !== undefined
+				? sessionData.cookie.expires.getTime() - Date.now()
+				: (this.ttlSeconds || 0) * 1000;
+
+		return Math.min(ttlMilliseconds, this.checkLifetimeMilliseconds(sessionData));
+	}
+
+	/**
+	 * Check the remaining lifetime in milliseconds of a provided session object.
+	 *
+	 * @remarks uses the session `createdAt` field and {@link RedisStoreAdapter.maxLifetimeSeconds}.
+	 *
+	 * @param sessionData
+	 *
+	 * @return the duration in milliseconds after which the provided session must expire (or `Infinity` if unlimited).
+	 */
+	checkLifetimeMilliseconds(sessionData: session.SessionData) {
+		if (!this.maxLifetimeSeconds || !sessionData?.createdAt) return Infinity;
+		return sessionData.createdAt.getTime() + this.maxLifetimeSeconds * 1000 - Date.now();
 	}
 
 	/**
@@ -135,168 +719,512 @@ export class RedisStoreAdapter {
 	/**
 	 * Generate batches of keys with `SCAN` for multi-key operations or iteration.
 	 *
+	 * @remarks scans every master node of a cluster in sequence.
+	 *
 	 * @param batch - whether to return the keys returned by each `SCAN` call in batches; this allows the consumer to
 	 * make other async calls using each batch while waiting for the next one to arrive.
+	 * @param scope - restricts the keys to the sessions of a tenant.
 	 *
 	 * @return an async generator for individual keys or batches of keys.
 	 */
-	generateKeys(batch: false): AsyncGenerator<string>;
-	generateKeys(batch?: true): AsyncGenerator<string[]>;
-	async *generateKeys(batch = true) {
-		let cursor = 0;
-		do {
-			// eslint-disable-next-line no-await-in-loop
-			const result: { cursor: number; keys: string[] } = await this.client.scan(cursor, {
-				TYPE: 'string',
-				MATCH: this.key('*'),
-				COUNT: this.scanCount,
-			});
+	generateKeys(batch: false, scope?: TenantScope): AsyncGenerator<string>;
+	generateKeys(batch?: true, scope?: TenantScope): AsyncGenerator<string[]>;
+	async *generateKeys(batch = true, scope: TenantScope = {}) {
+		const adapter = scope.tenant === undefined ? this : this.tenant(scope.tenant);
 
-			cursor = result.cursor;
-			const { keys } = result;
+		// eslint-disable-next-line no-restricted-syntax
+		for (const client of nodeClients(this.client)) {
+			let cursor = 0;
+			do {
+				// eslint-disable-next-line no-await-in-loop
+				const result: { cursor: number; keys: string[] } = await client.scan(cursor, {
+					TYPE: this.storage,
+					MATCH: `${escapeGlob(adapter.prefix)}*`,
+					COUNT: this.scanCount,
+				});
 
-			if (keys.length) {
-				if (batch) {
-					yield keys;
-				} else {
-					yield* keys;
+				cursor = result.cursor;
+				const keys = result.keys.filter(key => adapter.isSessionKey(key));
+
+				if (keys.length) {
+					if (batch) {
+						yield keys;
+					} else {
+						yield* keys;
+					}
 				}
-			}
-		} while (cursor !== 0);
+			} while (cursor !== 0);
+		}
 	}
 
 	/**
 	 * Get a session.
 	 *
+	 * @remarks sessions stored with an outdated schema version are upgraded (and written back if
+	 * {@link RedisStoreAdapter.writeBackMigrations} is enabled); sessions past their maximum lifetime are destroyed.
+	 * Sessions are read from the {@link RedisStoreAdapter.cache} if enabled. Missing sessions are migrated from the
+	 * {@link RedisStoreAdapter.legacy} store if enabled.
+	 *
 	 * @param sessionId
 	 *
 	 * @return the session object.
 	 */
 	async get(sessionId: string) {
-		const key = this.key(sessionId);
-		const result = await this.client.get(key);
-		if (!result || result === TOMBSTONE) return null;
+		return instrument(this.instrumentation, 'get', sessionId, async context => {
+			const key = this.key(sessionId);
+			const generation = this.cache?.generation() ?? 0;
 
-		return this.serializer.parse(result);
-	}
+			const cachedValue = this.cache?.get(sessionId);
+			const cached = cachedValue !== undefined;
+			// The remaining TTL of the key bounds the cache entry, as expirations are not published to other instances
+			const [stored, ttl] = cached
+				? [cachedValue, null]
+				: await Promise.all([this._fetchOne(key), this.cache?.ready ? this.client.pTTL(key) : null]);
+			context.keyCount = 1;
+			if (stored === null) {
+				const migrated = this.legacy ? await this._migrateLegacy(sessionId) : null;
+				context.outcome = migrated ? 'migrated' : 'missing';
+				return migrated;
+			}
 
-	/**
-	 * Upsert a session (create or update).
-	 *
-	 * @param sessionId
-	 * @param sessionData
-	 *
-	 * @return the serialized session that was set (or `null` if expired).
-	 */
-	async set(sessionId: string, sessionData: session.SessionData) {
-		const ttlMilliseconds = this.checkTtlMilliseconds(sessionData);
-		if (ttlMilliseconds <= 0) {
-			await this.destroy(sessionId);
-			return null;
-		}
+			context.payloadBytes = sizeOf(stored);
+			const sessionData = await this._upgrade(key, stored);
+			if (sessionData === null) {
+				context.outcome = 'missing';
+				return null;
+			}
+			if (this.checkLifetimeMilliseconds(sessionData) <= 0) {
+				await this._destroy(sessionId, true, 'lifetime');
+				context.outcome = 'expired';
+				return null;
+			}
 
-		const _sessionData = {
-			...sessionData,
-			lastModified: new Date(Date.now()), // verbose syntax, but simplifies testing
-		};
+			if (!cached && ttl !== null) {
+				const ttlMilliseconds = this.checkTtlMilliseconds(sessionData);
+				this.cache?.set(
+					sessionId,
+					stored,
+					generation,
+					ttl >= 0 ? Math.min(ttl, ttlMilliseconds) : ttlMilliseconds,
+				);
+			}
 
-		const key = this.key(sessionId);
-		const value = this.serializer.stringify(_sessionData);
+			if (typeof stored !== 'string') {
+				this._saveFields(sessionId, String(sessionData.lastModified?.getTime() ?? ''), stored);
+			}
 
-		const result = await this.client.eval(this._scripts.set, {
-			keys: [key],
-			arguments: [value, String(ttlMilliseconds)],
+			context.outcome = cached ? 'hit' : 'found';
+			return sessionData;
 		});
-
-		if (!result) return null;
-		return _sessionData;
 	}
 
 	/**
-	 * Touch an existing session (i.e. renew its expiration).
+	 * Inspect the stored state of a session (e.g. to debug why a session was lost), without decoding errors, migrations
+	 * or cache reads.
 	 *
 	 * @param sessionId
-	 * @param ttlSeconds - the duration in seconds for renewal or a session object from which to determine expiration;
-	 * if the determined value is non-positive, the session will be destroyed.
 	 *
-	 * @return the date when the session will expire (or `null` if expired).
+	 * @return the state, TTL, size and metadata of the stored session.
 	 */
-	async touch(sessionId: string, ttlSeconds: session.SessionData | number) {
-		const key = this.key(sessionId);
-		const ttlMilliseconds =
-			typeof ttlSeconds === 'number' ? ttlSeconds * 1000 : this.checkTtlMilliseconds(ttlSeconds);
+	async inspect(sessionId: string): Promise<SessionInspection> {
+		return instrument(this.instrumentation, 'inspect', sessionId, async context => {
+			const key = this.key(sessionId);
+			const [stored, ttl] = await Promise.all([
+				this.storage === 'hash' ? this.client.hGetAll(key) : this.client.get(key),
+				this.client.pTTL(key),
+			]);
+			context.keyCount = 1;
 
-		if (ttlMilliseconds <= 0) {
-			await this.destroy(sessionId);
-			return null;
-		}
+			if (stored === null || (typeof stored !== 'string' && !Object.keys(stored).length)) {
+				context.outcome = 'missing';
+				return {
+					state: 'missing',
+					ttlMs: null,
+					expiresAt: null,
+					bytes: 0,
+					lastModified: null,
+					tombstone: null,
+				};
+			}
 
-		return this.client
-			.eval(this._scripts.touch, {
-				keys: [key],
-				arguments: [String(ttlMilliseconds)],
-			})
-			.then(result => {
-				if (result) return new Date(ttlMilliseconds);
-				return null;
-			});
-	}
+			const ttlMs = ttl >= 0 ? ttl : null;
+			const expiresAt = ttlMs === null ? null : new Date(Date.now() + ttlMs);
+			const bytes = sizeOf(stored);
+			context.payloadBytes = bytes;
 
-	/**
-	 * Destroy a session.
-	 *
-	 * @param sessionId
-	 * @param useTombstone - use tombstone for concurrency safety.
-	 *
-	 * @return `true` if the session was successfully destroyed (or `false` if the provided session id does not exist).
-	 */
-	async destroy(sessionId: string, useTombstone = true) {
-		const key = this.key(sessionId);
-		if (useTombstone) {
-			return this.client
-				.set(key, TOMBSTONE, {
-					EX: this.concurrencyGraceSeconds,
-				})
-				.then(result => !!result);
-		}
+			const marker = typeof stored === 'string' ? stored : stored[TOMBSTONE_FIELD];
+			if (marker?.startsWith(TOMBSTONE)) {
+				context.outcome = 'tombstoned';
+				const tombstone = parseTombstone(marker);
+				return { state: 'tombstoned', ttlMs, expiresAt, bytes, lastModified: null, tombstone };
+			}
 
-		return this.client.del(key).then(result => result === 1);
+			const lastModified = this._decodeOrNull(stored)?.lastModified ?? null;
+			context.outcome = 'found';
+			return { state: 'active', ttlMs, expiresAt, bytes, lastModified, tombstone: null };
+		});
 	}
 
 	/**
-	 * Destroy all existing sessions (by either deleting or using tombstones).
+	 * Upsert a session (create or update).
 	 *
-	 * @remarks non-atomic operation
+	 * @remarks a new session of a user owning {@link RedisStoreAdapter.maxSessionsPerUser} sessions either evicts the
+	 * least-recently-modified sessions of the user (replaced by tombstones) or is rejected, atomically with the write
+	 * (except on a cluster, where the sessions of the user are checked before the write). Sessions indexed for the user
+	 * but since written for another user are removed from the index before the limit is enforced.
 	 *
-	 * @param useTombstones - use tombstones for concurrency safety.
+	 * @param sessionId
+	 * @param sessionData
 	 *
-	 * @return the number of sessions destroyed.
+	 * @return the serialized session that was set (or `null` if expired), a {@link SessionEviction} if other sessions of
+	 * the user were evicted, a {@link SessionConflict} if the write was rejected by optimistic locking or a
+	 * {@link SessionLimitExceeded} if the write was rejected by the session limit of the user.
 	 */
-	async clear(useTombstones = true) {
-		const generator = this.generateKeys();
+	async set(
+		sessionId: string,
+		sessionData: session.SessionData,
+	): Promise<session.SessionData | SessionEviction | SessionConflict | SessionLimitExceeded | null> {
+		return instrument(this.instrumentation, 'set', sessionId, async context => {
+			const _sessionData = {
+				...sessionData,
+				lastModified: new Date(Date.now()), // verbose syntax, but simplifies testing
+			};
+			if (this.schemaVersion) {
+				_sessionData.schemaVersion = Math.max(sessionData.schemaVersion ?? 0, this.schemaVersion);
+			}
+			if (this.maxLifetimeSeconds) {
+				_sessionData.createdAt = sessionData.createdAt ?? _sessionData.lastModified;
+			}
 
-		const batchPromises: Promise<number>[] = [];
-		// eslint-disable-next-line no-restricted-syntax
-		for await (const keysBatch of generator) {
-			if (useTombstones) {
-				const multi = this.client.multi();
+			const ttlMilliseconds = this.checkTtlMilliseconds(_sessionData);
+			if (ttlMilliseconds <= 0) {
+				await this._destroy(
+					sessionId,
+					true,
+					this.checkLifetimeMilliseconds(_sessionData) <= 0 ? 'lifetime' : 'expired',
+				);
+				context.keyCount = 1;
+				context.outcome = 'expired';
+				return null;
+			}
 
-				keysBatch.forEach(key => {
-					multi.set(key, TOMBSTONE, {
-						EX: this.concurrencyGraceSeconds,
-					});
-				});
+			const key = this.key(sessionId);
+			const userId = this._userId(_sessionData);
+			const keys = this._scriptKeys(key, userId);
+			context.keyCount = keys.length;
+			const version = String(sessionData.lastModified?.getTime() ?? '');
+			const score = _sessionData.lastModified.getTime();
+			const limit = [
+				String(userId === null ? 0 : this.maxSessionsPerUser || 0),
+				this.sessionLimitPolicy === 'reject' ? 'reject' : 'evict',
+				this.prefix,
+				String(this.concurrencyGraceSeconds),
+				createTombstone('evicted'),
+			];
 
-				const batchPromise = multi.exec(true).then(results => results.filter(result => result !== null).length);
-				batchPromises.push(batchPromise);
-			} else {
-				const batchPromise = this.client.del(keysBatch);
-				batchPromises.push(batchPromise);
+			await this._pruneIndex(sessionId, userId);
+			const evictedBefore = await this._limitSeparately(sessionId, userId);
+			if (evictedBefore === null) {
+				context.outcome = 'limited';
+				return new SessionLimitExceeded(sessionId, userId as string, this.maxSessionsPerUser as number);
 			}
-		}
 
-		return Promise.all(batchPromises).then(counts => counts.reduce((n, count) => n + count, 0));
-	}
+			let result: unknown;
+			if (this.storage === 'hash') {
+				result = await this._setFields(sessionId, keys, _sessionData, ttlMilliseconds, version, limit, context);
+			} else {
+				const value = this.serializer.stringify(_sessionData);
+				context.payloadBytes = sizeOf(value);
+
+				result = await this._scripts.run('set', {
+					keys,
+					arguments: [
+						value,
+						String(ttlMilliseconds),
+						sessionId,
+						String(score),
+						this.optimisticLocking ? '1' : '0',
+						version,
+						...limit,
+					],
+				});
+			}
+			await this.cache?.invalidate([sessionId]);
+
+			if (!result) {
+				context.outcome = 'tombstoned';
+				return null;
+			}
+
+			const [status, ...evicted] = (Array.isArray(result) ? result : [result]) as unknown[];
+			if (status === 'CONFLICT') {
+				context.outcome = 'conflict';
+				const existing = evicted[0] as string | string[];
+				return new SessionConflict(
+					sessionId,
+					this._decode(Array.isArray(existing) ? toRecord(existing) : existing),
+				);
+			}
+			if (status === 'LIMIT') {
+				context.outcome = 'limited';
+				return new SessionLimitExceeded(sessionId, userId as string, this.maxSessionsPerUser as number);
+			}
+
+			await this._updateIndex(userId, 'add', sessionId, score, ttlMilliseconds);
+			this.emit(status === 'created' ? 'created' : 'updated', { sessionId, sessionData: _sessionData });
+			context.outcome = 'written';
+
+			const evictedIds = evicted as string[];
+			if (evictedIds.length) {
+				evictedIds.forEach(id => this._fields.delete(id));
+				await this.cache?.invalidate(evictedIds);
+				await this._removeLegacy(evictedIds);
+				await this._recordTombstones(evictedIds);
+				evictedIds.forEach(id => this.emit('destroyed', { sessionId: id, reason: 'evicted' }));
+			}
+
+			const all = [...evictedBefore, ...evictedIds];
+			if (!all.length) return _sessionData;
+
+			all.forEach(id => this.emit('evicted', { sessionId: id, userId: userId as string, by: sessionId }));
+			return new SessionEviction(sessionId, _sessionData, all);
+		});
+	}
+
+	/**
+	 * Touch an existing session (i.e. renew its expiration).
+	 *
+	 * @remarks the renewal is clamped to the remaining lifetime of the session (the `createdAt` field of the stored
+	 * session is used if only a duration is provided, which requires a JSON serializer in the `string` storage mode).
+	 *
+	 * @param sessionId
+	 * @param ttlSeconds - the duration in seconds for renewal or a session object from which to determine expiration;
+	 * if the determined value is non-positive or the session is past its maximum lifetime, the session will be destroyed.
+	 *
+	 * @return the date when the session will expire (or `null` if expired).
+	 */
+	async touch(sessionId: string, ttlSeconds: session.SessionData | number) {
+		return instrument(this.instrumentation, 'touch', sessionId, async context => {
+			const key = this.key(sessionId);
+			const ttlMilliseconds =
+				typeof ttlSeconds === 'number' ? ttlSeconds * 1000 : this.checkTtlMilliseconds(ttlSeconds);
+			context.keyCount = 1;
+
+			if (ttlMilliseconds <= 0) {
+				const lifetime = typeof ttlSeconds === 'number' ? Infinity : this.checkLifetimeMilliseconds(ttlSeconds);
+				await this._destroy(sessionId, true, lifetime <= 0 ? 'lifetime' : 'expired');
+				context.outcome = 'expired';
+				return null;
+			}
+
+			const userId = typeof ttlSeconds === 'number' ? null : this._userId(ttlSeconds);
+			const createdAt = typeof ttlSeconds === 'number' ? undefined : ttlSeconds.createdAt;
+
+			const call = {
+				keys: this._scriptKeys(key, userId),
+				arguments: [
+					String(ttlMilliseconds),
+					String(this.maxLifetimeSeconds ? Math.round(this.maxLifetimeSeconds * 1000) : 0),
+					String(Date.now()),
+					String(createdAt?.getTime() ?? ''),
+				],
+			};
+			const result = this._touchLoader
+				? await this._touchLoader.load(call)
+				: await this._scripts.run('touch', call);
+			await this.cache?.invalidate([sessionId]);
+
+			// The session is past its maximum lifetime
+			if (result === -1) {
+				await this._destroy(sessionId, true, 'lifetime');
+				context.outcome = 'expired';
+				return null;
+			}
+			if (!result) {
+				context.outcome = 'missing';
+				return null;
+			}
+
+			await this._updateIndex(userId, 'extend', sessionId, 0, Number(result));
+			this.emit('touched', { sessionId, expires: new Date(Date.now() + Number(result)) });
+			context.outcome = 'touched';
+			return new Date(Number(result));
+		});
+	}
+
+	/**
+	 * Destroy a session.
+	 *
+	 * @param sessionId
+	 * @param useTombstone - use tombstone for concurrency safety.
+	 * @param reason - the reason recorded by the tombstone (see {@link RedisStoreAdapter.inspect}).
+	 *
+	 * @return `true` if the session was successfully destroyed (or `false` if the provided session id does not exist).
+	 */
+	async destroy(sessionId: string, useTombstone = true, reason = 'destroy') {
+		return instrument(this.instrumentation, 'destroy', sessionId, async context => {
+			const destroyed = await this._destroy(sessionId, useTombstone, 'destroy', undefined, reason);
+			context.keyCount = 1;
+			context.outcome = destroyed ? 'destroyed' : 'missing';
+			return destroyed;
+		});
+	}
+
+	/**
+	 * Rotate the id of a session (e.g. after login to prevent session fixation), preserving its data and remaining TTL.
+	 * The previous id is replaced by a tombstone recording the new id for {@link RedisStoreAdapter.concurrencyGraceSeconds}
+	 * (see {@link RedisStoreAdapter.rotatedTo}).
+	 *
+	 * @remarks atomic operation, except on a cluster where the session is copied to the new key (which may be served by
+	 * another node) before the tombstone is written (see {@link RedisStoreAdapter._rotateSeparately}).
+	 *
+	 * @param oldId
+	 * @param newId - defaults to a random id.
+	 *
+	 * @return the new session id (or `null` if the provided session id does not exist).
+	 */
+	async rotate(oldId: string, newId = generateSessionId()) {
+		return instrument(this.instrumentation, 'rotate', oldId, async context => {
+			const key = this.key(oldId);
+			const newKey = this.key(newId);
+
+			let sessionData: session.SessionData | null = null;
+			if (this.getUserId) {
+				const [stored] = await this._fetch([key]);
+				if (stored !== null) sessionData = await this._tryDecode(key, stored);
+			}
+
+			const userId = this._userId(sessionData);
+			const result = this.cluster
+				? await this._rotateSeparately(oldId, newId)
+				: await this._scripts.run('rotate', {
+						keys: [key, newKey, ...(userId === null ? [] : [this.userKey(userId)])],
+						arguments: [
+							String(this.concurrencyGraceSeconds),
+							oldId,
+							newId,
+							createTombstone('rotated', newId),
+						],
+				  });
+			await this.cache?.invalidate([oldId, newId]);
+			context.keyCount = 2;
+			if (result === 0) throw new Error(`Session id \`${newId}\` already exists`);
+			if (!result) {
+				context.outcome = 'missing';
+				return null;
+			}
+
+			const fields = this._fields.get(oldId);
+			this._fields.delete(oldId);
+			if (fields) this._saveFields(newId, fields.version, fields.fields);
+
+			if (Array.isArray(result)) {
+				const [ttl] = result as [number];
+				const score = sessionData?.lastModified?.getTime() ?? Date.now();
+				await this._updateIndex(userId, 'remove', oldId, 0, 0);
+				await this._updateIndex(userId, 'add', newId, score, ttl);
+			}
+
+			await this._removeLegacy([oldId]);
+			await this._recordTombstones([oldId]);
+			this.emit('rotated', { sessionId: oldId, newId });
+			context.outcome = 'rotated';
+			return newId;
+		});
+	}
+
+	/**
+	 * Resolve the id a session was rotated to (e.g. to resolve or reject a late request carrying the previous id).
+	 *
+	 * @remarks rotations are only recorded for {@link RedisStoreAdapter.concurrencyGraceSeconds}.
+	 *
+	 * @param sessionId
+	 *
+	 * @return the new session id (or `null` if the session was not rotated).
+	 */
+	async rotatedTo(sessionId: string) {
+		const key = this.key(sessionId);
+		const tombstone =
+			this.storage === 'hash' ? await this.client.hGet(key, TOMBSTONE_FIELD) : await this.client.get(key);
+
+		return tombstone?.startsWith(TOMBSTONE) ? parseTombstone(tombstone).rotatedTo : null;
+	}
+
+	/**
+	 * List the sessions of a user using the per-user session index.
+	 *
+	 * @remarks requires the {@link RedisStoreAdapterOptions.getUserId} option; stale index entries (e.g. expired or
+	 * destroyed sessions) are pruned from the index.
+	 *
+	 * @param userId
+	 *
+	 * @return a record of session ids mapped to session objects.
+	 */
+	async listForUser(userId: string) {
+		return instrument(this.instrumentation, 'listForUser', null, async context => {
+			const owned = await this._ownedSessions(userId, (key, stored) => this._tryDecode(key, stored), context);
+
+			return owned.reduce((acc, [sessionId, sessionData]) => {
+				acc[sessionId] = sessionData;
+				return acc;
+			}, {} as SessionDataDict);
+		});
+	}
+
+	/**
+	 * Destroy all sessions of a user using the per-user session index (e.g. "log out everywhere").
+	 *
+	 * @remarks non-atomic operation
+	 *
+	 * @param userId
+	 * @param options
+	 *
+	 * @return the number of sessions destroyed.
+	 */
+	async destroyAllForUser(userId: string, options: DestroyAllForUserOptions = {}) {
+		return instrument(this.instrumentation, 'destroyAllForUser', null, async context => {
+			const { except = [], useTombstones = true, reason } = options;
+			const excluded = new Set(typeof except === 'string' ? [except] : except);
+
+			const sessions = await this.listForUser(userId);
+			const results = await Promise.all(
+				Object.keys(sessions)
+					.filter(sessionId => !excluded.has(sessionId))
+					.map(sessionId => this._destroy(sessionId, useTombstones, 'user', userId, reason)),
+			);
+			context.keyCount = results.length;
+
+			return results.filter(result => result).length;
+		});
+	}
+
+	/**
+	 * Destroy all existing sessions (by either deleting or using tombstones).
+	 *
+	 * @remarks non-atomic operation
+	 *
+	 * @param useTombstones - use tombstones for concurrency safety.
+	 * @param options - the tenant scope of the operation (other tenants' keys are not scanned), the reason recorded
+	 * by the tombstones and the {@link BulkOptions}.
+	 *
+	 * @return the number of sessions destroyed (before the operation was aborted).
+	 */
+	async clear(useTombstones = true, options: ClearOptions = {}): Promise<number> {
+		if (options.tenant !== undefined) {
+			return this.tenant(options.tenant).clear(useTombstones, { ...options, tenant: undefined });
+		}
+
+		return instrument(this.instrumentation, 'clear', null, context =>
+			this._runBulk(options, async keysBatch => {
+				context.keyCount += keysBatch.length;
+				const count = await this._clearBatch(keysBatch, useTombstones, options.reason ?? 'clear');
+				// Every cached session is destroyed, so caches are dropped once per batch instead of publishing every id
+				await this.cache?.invalidate(null);
+				await this._removeLegacy(keysBatch.map(key => key.substring(this.prefix.length)));
+				return count;
+			}),
+		);
+	}
 
 	/**
 	 * Count the number of keys in the session store.
@@ -304,60 +1232,1365 @@ export class RedisStoreAdapter {
 	 * @remarks non-atomic operation
 	 *
 	 * @params estimate - estimate the count by skipping tombstone checks.
+	 * @param options - the tenant scope of the operation and the {@link BulkOptions}.
+	 *
+	 * @return the number of keys in the session store (counted before the operation was aborted).
+	 */
+	async length(estimate = false, options: BulkOptions = {}): Promise<number> {
+		if (options.tenant !== undefined) {
+			return this.tenant(options.tenant).length(estimate, { ...options, tenant: undefined });
+		}
+
+		return instrument(this.instrumentation, 'length', null, context =>
+			this._runBulk(options, keysBatch => {
+				context.keyCount += keysBatch.length;
+				// Tombstones are allowed when estimating (more efficient), otherwise values must be checked
+				return estimate ? Promise.resolve(keysBatch.length) : this._countBatch(keysBatch);
+			}),
+		);
+	}
+
+	/**
+	 * Acquire all sessions from the store by calling `MGET` for batches of keys based on {@link RedisStore.scanCount}.
+	 * Keys are read individually (pipelined) on a cluster, as a batch may span several hash slots.
+	 *
+	 * @remarks non-atomic operation; sessions stored with an outdated schema version are upgraded (and written back if
+	 * {@link RedisStoreAdapter.writeBackMigrations} is enabled). Prefer {@link RedisStoreAdapter.iterate} for large
+	 * stores, as all sessions are held in memory.
+	 *
+	 * @param options - the tenant scope of the operation and the {@link BulkOptions}.
+	 *
+	 * @return a record of session ids mapped to session objects (read before the operation was aborted).
+	 */
+	async all(options: BulkOptions = {}): Promise<SessionDataDict> {
+		if (options.tenant !== undefined) return this.tenant(options.tenant).all({ ...options, tenant: undefined });
+
+		return instrument(this.instrumentation, 'all', null, async context => {
+			const sessions: SessionDataDict = {};
+
+			await this._runBulk(options, async keysBatch => {
+				const entries = await this._loadBatch<session.SessionData>(keysBatch, {}, context);
+				entries.forEach(([sessionId, sessionData]) => {
+					sessions[sessionId] = sessionData;
+				});
+				return entries.length;
+			});
+
+			return sessions;
+		});
+	}
+
+	/**
+	 * Iterate over the sessions of the store, fetching batches of keys based on {@link RedisStore.scanCount} as the
+	 * iterator is consumed (tombstones are skipped).
+	 *
+	 * @remarks non-atomic operation (sessions written during the iteration may be yielded more than once or not at all);
+	 * sessions are upgraded as by {@link RedisStoreAdapter.all}.
+	 *
+	 * @param options
+	 *
+	 * @return an async iterator of session ids and sessions (or projections of the sessions).
+	 */
+	async *iterate<T = session.SessionData>(
+		options: IterateOptions<T> = {},
+	): AsyncGenerator<[string, T], void, undefined> {
+		// eslint-disable-next-line no-restricted-syntax
+		for await (const entries of this.iterateBatches(options)) {
+			yield* entries;
+		}
+	}
+
+	/**
+	 * Iterate over the sessions of the store by batch (see {@link RedisStoreAdapter.iterate}).
+	 *
+	 * @param options
+	 *
+	 * @return an async iterator of non-empty batches of session ids and sessions (or projections of the sessions).
+	 */
+	iterateBatches<T = session.SessionData>(options: IterateOptions<T> = {}) {
+		return this._iterateBatches(options, null);
+	}
+
+	/**
+	 * Stream the sessions of the store (see {@link RedisStoreAdapter.iterate}); batches are fetched as the stream is
+	 * read, so that slow consumers apply backpressure.
+	 *
+	 * @param options
+	 *
+	 * @return a readable stream (in object mode) of session ids and sessions (or projections of the sessions).
+	 */
+	stream<T = session.SessionData>(options: IterateOptions<T> = {}) {
+		return Readable.from(this.iterate(options), { objectMode: true, highWaterMark: this.scanCount });
+	}
+
+	/**
+	 * Get a page of sessions (e.g. to browse sessions in an admin dashboard), scanning further batches of keys until
+	 * the page is full (tombstones are skipped).
+	 *
+	 * @remarks non-atomic operation (sessions written between pages may be returned more than once or not at all, and
+	 * the sessions of a partly returned batch of keys are returned again if the last returned key was deleted in the
+	 * meantime); the cursor records the node id of a cluster, so that it remains valid as long as the node serves the
+	 * keyspace.
+	 *
+	 * @param options
+	 *
+	 * @return the sessions of the page and the cursor of the next page.
+	 */
+	async page(options: PageOptions = {}): Promise<SessionPage> {
+		return instrument(this.instrumentation, 'page', null, async context => {
+			const limit = options.limit ?? 50;
+			if (!Number.isInteger(limit) || limit <= 0) throw new Error('The page limit must be a positive integer');
+
+			const nodes = keyspaceNodes(this.client);
+			const position: PagePosition = options.cursor ? decodeCursor(options.cursor) : ['', 0, null];
+			let [, cursor, after] = position;
+			let node = nodes.findIndex(({ id }) => id === position[0]);
+			// The node no longer serves the keyspace (e.g. it was removed from the cluster), so the scan resumes
+			// from the next node
+			if (node === -1) {
+				node = nodes.filter(({ id }) => id < position[0]).length;
+				[cursor, after] = [0, null];
+			}
+
+			const sessions: SessionDataDict = {};
+			let count = 0;
+			while (node < nodes.length) {
+				// eslint-disable-next-line no-await-in-loop
+				const result: { cursor: number; keys: string[] } = await nodes[node].client.scan(cursor, {
+					TYPE: this.storage,
+					MATCH: `${escapeGlob(this.prefix)}*`,
+					COUNT: this.scanCount,
+				});
+
+				// The batch is resumed after the last consumed key, as keys deleted in the meantime shift the positions of
+				// the other keys (the whole batch is consumed again if the last consumed key was deleted)
+				const keys = after === null ? result.keys : result.keys.slice(result.keys.indexOf(after) + 1);
+				const sessionKeys = keys.filter(key => this.isSessionKey(key));
+				// eslint-disable-next-line no-await-in-loop
+				const values = sessionKeys.length ? await this._fetch(sessionKeys) : [];
+				const storedValues = new Map(sessionKeys.map((key, i) => [key, values[i]]));
+				context.keyCount += sessionKeys.length;
+
+				// Consume keys until the page is full
+				let consumed = 0;
+				const entries: [string, StoredValue][] = [];
+				while (consumed < keys.length && count + entries.length < limit) {
+					const value = storedValues.get(keys[consumed]);
+					if (value !== undefined && value !== null) entries.push([keys[consumed], value]);
+					consumed += 1;
+				}
+
+				// eslint-disable-next-line no-await-in-loop
+				const upgraded = await Promise.all(entries.map(([key, value]) => this._upgrade(key, value)));
+				entries.forEach(([key, value], i) => {
+					const sessionData = upgraded[i];
+					context.payloadBytes += sizeOf(value);
+					if (sessionData !== null) sessions[key.substring(this.prefix.length)] = sessionData;
+				});
+				count += entries.length;
+
+				if (consumed < keys.length) {
+					after = keys[consumed - 1];
+				} else if (result.cursor !== 0) {
+					[cursor, after] = [result.cursor, null];
+				} else {
+					[node, cursor, after] = [node + 1, 0, null];
+				}
+
+				if (count >= limit) break;
+			}
+
+			const nextCursor = node < nodes.length ? encodeCursor([nodes[node].id, cursor, after]) : null;
+			return { sessions, nextCursor };
+		});
+	}
+
+	/**
+	 * Report the stored session values that cannot be decoded (e.g. for an admin endpoint).
+	 *
+	 * @remarks non-atomic operation; values are only decoded (i.e. not written back or quarantined), regardless of
+	 * {@link RedisStoreAdapter.onParseError}.
+	 *
+	 * @return the corrupt entries.
+	 */
+	async scanCorrupt() {
+		return instrument(this.instrumentation, 'scanCorrupt', null, async context => {
+			const entries: CorruptEntry[] = [];
+
+			// eslint-disable-next-line no-restricted-syntax
+			for await (const keysBatch of this.generateKeys()) {
+				// eslint-disable-next-line no-await-in-loop
+				const values = await this._fetch(keysBatch);
+				context.keyCount += keysBatch.length;
+
+				values.forEach((stored, i) => {
+					if (stored === null) return;
+
+					try {
+						this._decode(stored);
+					} catch (error) {
+						entries.push({
+							sessionId: keysBatch[i].substring(this.prefix.length),
+							key: keysBatch[i],
+							error: error instanceof Error ? error.message : String(error),
+						});
+					}
+				});
+			}
+
+			return entries;
+		});
+	}
+
+	/**
+	 * Re-serialize stored sessions with the current serializer (e.g. to re-encrypt sessions after a key rotation).
+	 * Each session is rewritten atomically with its remaining TTL, unless it was modified in the meantime.
+	 *
+	 * @remarks non-atomic operation
+	 *
+	 * @param filter - selects the stored values to rewrite (defaults to all sessions).
+	 *
+	 * @return the number of sessions rewritten.
+	 */
+	async reserialize(filter: (stored: StoredValue) => boolean = () => true) {
+		return instrument(this.instrumentation, 'reserialize', null, async context => {
+			const count = await this._rewriteAll(stored => (filter(stored) ? this._decode(stored) : null));
+			context.keyCount = count;
+			return count;
+		});
+	}
+
+	/**
+	 * Upgrade all sessions stored with an outdated schema version (e.g. before deploying handlers that only support
+	 * the latest schema). Each session is rewritten atomically with its remaining TTL, unless it was modified in the
+	 * meantime.
+	 *
+	 * @remarks non-atomic operation
+	 *
+	 * @return the number of sessions upgraded.
+	 */
+	async migrate() {
+		return instrument(this.instrumentation, 'migrate', null, async context => {
+			const count = await this._rewriteAll(stored => {
+				const sessionData = this._parse(stored);
+				const migrated = migrateSession(sessionData, this.migrations);
+				return migrated === sessionData ? null : migrated;
+			});
+			context.keyCount = count;
+			return count;
+		});
+	}
+
+	/**
+	 * Migrate every session of the {@link RedisStoreAdapter.legacy} store (e.g. offline, before disabling the legacy
+	 * store), skipping the sessions existing in the store.
+	 *
+	 * @remarks non-atomic operation
 	 *
-	 * @return the number of keys in the session store.
+	 * @return the number of sessions migrated and skipped.
 	 */
-	async length(estimate = false) {
-		// Tombstones are allowed (more efficient)
-		if (estimate) {
-			let n = 0;
-			// eslint-disable-next-line no-restricted-syntax,@typescript-eslint/no-unused-vars
-			for await (const _ of this.generateKeys(false)) {
-				n += 1;
+	async migrateLegacy(): Promise<LegacyMigrationResult> {
+		const { legacy } = this;
+		if (!legacy) throw new Error('Migrating legacy sessions requires the `legacy` option');
+
+		return instrument(this.instrumentation, 'migrateLegacy', null, async context => {
+			const result: LegacyMigrationResult = { migrated: 0, skipped: 0 };
+
+			// eslint-disable-next-line no-restricted-syntax
+			for (const client of nodeClients(this.client)) {
+				let cursor = 0;
+				do {
+					// eslint-disable-next-line no-await-in-loop
+					const scanned: { cursor: number; keys: string[] } = await client.scan(cursor, {
+						TYPE: 'string',
+						MATCH: `${escapeGlob(legacy.prefix)}*`,
+						COUNT: this.scanCount,
+					});
+					cursor = scanned.cursor;
+
+					const { keys } = scanned;
+					const sessionIds = keys.map(key => key.substring(legacy.prefix.length));
+					// eslint-disable-next-line no-await-in-loop
+					const [sessions, existing] = await Promise.all([
+						keys.length ? legacy.read(keys) : [],
+						Promise.all(sessionIds.map(sessionId => this.client.exists(this.key(sessionId)))),
+					]);
+					// eslint-disable-next-line no-await-in-loop
+					const migrated = await Promise.all(
+						sessionIds.map((sessionId, i) =>
+							existing[i] ? null : this._migrateLegacy(sessionId, sessions[i]),
+						),
+					);
+
+					context.keyCount += keys.length;
+					const n = migrated.filter(sessionData => sessionData !== null).length;
+					result.migrated += n;
+					result.skipped += keys.length - n;
+				} while (cursor !== 0);
 			}
 
-			return n;
+			return result;
+		});
+	}
+
+	/**
+	 * Export the stored sessions with their remaining TTL (e.g. to migrate the store to another Redis deployment).
+	 *
+	 * @remarks non-atomic operation; values are exported as stored (i.e. not decoded), see
+	 * {@link RedisStoreAdapter.import}.
+	 *
+	 * @param options
+	 *
+	 * @return a readable stream of NDJSON {@link SessionRecord} lines.
+	 */
+	export(options: ExportOptions = {}) {
+		return Readable.from(toLines(this.exportRecords(options)), { objectMode: false });
+	}
+
+	/**
+	 * Iterate over the stored sessions with their remaining TTL (see {@link RedisStoreAdapter.export}).
+	 *
+	 * @param options
+	 *
+	 * @return an async iterator of session records.
+	 */
+	async *exportRecords(options: ExportOptions = {}): AsyncGenerator<SessionRecord, void, undefined> {
+		if (options.tenant !== undefined) {
+			yield* this.tenant(options.tenant).exportRecords({ ...options, tenant: undefined });
+			return;
 		}
 
-		// Tombstones are not allowed (must check values)
-		const batchPromises: Promise<number>[] = [];
+		const { includeTombstones = false } = options;
 		// eslint-disable-next-line no-restricted-syntax
 		for await (const keysBatch of this.generateKeys()) {
-			const batchPromise = this.client.mGet(keysBatch).then(values => {
-				return values.filter(value => value && value !== TOMBSTONE).length;
-			});
-			batchPromises.push(batchPromise);
+			const records = await this._exportBatch(keysBatch);
+			yield* records.filter(({ value }) => includeTombstones || tombstoneOf(value) === null);
+		}
+	}
+
+	/**
+	 * Restore the sessions of an export (see {@link RedisStoreAdapter.export}) with their remaining TTL. Values are
+	 * re-serialized if they were exported with another serializer or storage mode.
+	 *
+	 * @remarks non-atomic operation; the user indexes are not updated, and existing sessions are checked before hash
+	 * values are written.
+	 *
+	 * @param source - NDJSON lines (e.g. a file stream).
+	 * @param options
+	 *
+	 * @return the number of sessions restored and skipped.
+	 */
+	async import(source: AsyncIterable<string | Buffer>, options: ImportOptions = {}): Promise<ImportResult> {
+		if (options.tenant !== undefined) {
+			return this.tenant(options.tenant).import(source, { ...options, tenant: undefined });
 		}
 
-		return Promise.all(batchPromises).then(counts => counts.reduce((n, count) => n + count, 0));
+		return instrument(this.instrumentation, 'import', null, async context => {
+			const result: ImportResult = { imported: 0, skipped: 0 };
+			let batch: SessionRecord[] = [];
+
+			const flush = async () => {
+				const imported = await this._importBatch(batch, options);
+				context.keyCount += batch.length;
+				result.imported += imported;
+				result.skipped += batch.length - imported;
+				batch = [];
+			};
+
+			let line = 0;
+			// eslint-disable-next-line no-restricted-syntax
+			for await (const text of readLines(source)) {
+				line += 1;
+				if (text.trim()) {
+					batch.push(parseSessionRecord(text, line));
+					// eslint-disable-next-line no-await-in-loop
+					if (batch.length >= this.scanCount) await flush();
+				}
+			}
+
+			if (batch.length) await flush();
+			return result;
+		});
 	}
 
 	/**
-	 * Acquire all sessions from the store by calling `MGET` for batches of keys based on {@link RedisStore.scanCount}.
+	 * Process the batches of keys of the store, with up to {@link BulkOptions.concurrency} batches in flight.
 	 *
-	 * @remarks non-atomic operation
+	 * @remarks no further batch is started once the operation is aborted, a batch failed or scanning the keys failed;
+	 * the batches in flight are awaited in every case, so that none is left running unobserved.
 	 *
-	 * @return a record of session ids mapped to session objects.
+	 * @param options
+	 * @param processBatch - processes a batch of keys, returning the number of keys affected.
+	 *
+	 * @return the number of keys affected (before the operation was aborted).
 	 */
-	async all() {
-		const generator = this.generateKeys();
+	protected async _runBulk(options: BulkOptions, processBatch: (keys: string[]) => Promise<number>) {
+		const { signal, onProgress } = options;
+		const concurrency = Math.max(1, options.concurrency ?? BULK_CONCURRENCY);
+		const progress: BulkProgress = { scanned: 0, affected: 0 };
+		const inFlight = new Set<Promise<void>>();
+		const failures: unknown[] = [];
 
-		const batchPromises: Promise<SessionDataDict>[] = [];
-		// eslint-disable-next-line no-restricted-syntax
-		for await (const keysBatch of generator) {
-			const batchPromise = this.client.mGet(keysBatch).then(values => {
-				return values
-					.filter(value => value && value !== TOMBSTONE)
-					.reduce((acc, value, i) => {
-						const id = keysBatch[i].substring(this.prefix.length);
-						acc[id] = this.serializer.parse(value as string);
-						return acc;
-					}, {} as SessionDataDict);
-			});
-			batchPromises.push(batchPromise);
+		const stopped = () => failures.length > 0 || !!signal?.aborted;
+
+		try {
+			if (!stopped()) {
+				// eslint-disable-next-line no-restricted-syntax
+				for await (const keysBatch of this.generateKeys()) {
+					progress.scanned += keysBatch.length;
+
+					const promise: Promise<void> = processBatch(keysBatch)
+						.then(
+							count => {
+								progress.affected += count;
+								onProgress?.({ ...progress });
+							},
+							error => {
+								failures.push(error);
+							},
+						)
+						.then(() => {
+							inFlight.delete(promise);
+						});
+					inFlight.add(promise);
+
+					// eslint-disable-next-line no-await-in-loop
+					if (inFlight.size >= concurrency) await Promise.race(inFlight);
+					if (stopped()) break;
+				}
+			}
+		} finally {
+			// The batches in flight are awaited even if scanning the keys failed
+			await Promise.all(inFlight);
+		}
+
+		if (failures.length) throw failures[0];
+		return progress.affected;
+	}
+
+	/**
+	 * Iterate over the sessions of the store by batch, fetching up to {@link IterateOptions.concurrency} batches ahead
+	 * of the consumer.
+	 *
+	 * @param options
+	 * @param context - the instrumented operation, updated with the number of keys and bytes read.
+	 *
+	 * @return an async iterator of non-empty batches of session ids and sessions (or projections of the sessions).
+	 */
+	protected async *_iterateBatches<T>(
+		options: IterateOptions<T>,
+		context: OperationContext | null,
+	): AsyncGenerator<[string, T][], void, undefined> {
+		const concurrency = Math.max(1, options.concurrency ?? 1);
+		const pending: Promise<[string, T][]>[] = [];
+
+		const load = (keys: string[]) => {
+			const promise = this._loadBatch(keys, options, context);
+			// Rejections are handled once the batch is awaited (or abandoned if the consumer stops early)
+			promise.catch(() => {});
+			pending.push(promise);
+		};
+
+		// eslint-disable-next-line no-restricted-syntax
+		for await (const keysBatch of this.generateKeys()) {
+			load(keysBatch);
+			if (pending.length >= concurrency) {
+				// eslint-disable-next-line no-await-in-loop
+				const entries = await (pending.shift() as Promise<[string, T][]>);
+				if (entries.length) yield entries;
+			}
+		}
+
+		while (pending.length) {
+			// eslint-disable-next-line no-await-in-loop
+			const entries = await (pending.shift() as Promise<[string, T][]>);
+			if (entries.length) yield entries;
+		}
+	}
+
+	/**
+	 * Load a batch of sessions, skipping tombstones and sessions rejected by {@link IterateOptions.filter}.
+	 *
+	 * @param keys
+	 * @param options
+	 * @param context - the instrumented operation, updated with the number of keys and bytes read.
+	 *
+	 * @return the session ids and sessions (or projections of the sessions).
+	 */
+	protected async _loadBatch<T>(keys: string[], options: IterateOptions<T>, context: OperationContext | null) {
+		const values = await this._fetch(keys);
+		if (context) {
+			context.keyCount += keys.length;
+			values.forEach(value => {
+				if (value !== null) context.payloadBytes += sizeOf(value);
+			});
+		}
+
+		const sessions = await Promise.all(
+			values.map((value, i) => (value === null ? null : this._upgrade(keys[i], value))),
+		);
+
+		return sessions.reduce((acc, sessionData, i) => {
+			const sessionId = keys[i].substring(this.prefix.length);
+			if (sessionData !== null && (!options.filter || options.filter(sessionData, sessionId))) {
+				acc.push([
+					sessionId,
+					options.map ? options.map(sessionData, sessionId) : (sessionData as unknown as T),
+				]);
+			}
+			return acc;
+		}, [] as [string, T][]);
+	}
+
+	/**
+	 * Resolve the user id owning a session (only if {@link RedisStoreAdapter.getUserId} is configured).
+	 *
+	 * @param sessionData
+	 *
+	 * @return the user id (or `null` if the session is not indexed).
+	 */
+	protected _userId(sessionData: session.SessionData | null) {
+		if (!this.getUserId || !sessionData) return null;
+		return this.getUserId(sessionData) ?? null;
+	}
+
+	/**
+	 * Destroy a session and remove it from the index of its user.
+	 *
+	 * @param sessionId
+	 * @param useTombstone - use tombstone for concurrency safety.
+	 * @param reason - the cause reported by the `destroyed` event.
+	 * @param userId - the user id indexing the session (or `null` if the session is not indexed); looked up from the
+	 * stored session if omitted.
+	 * @param recordedReason - the reason recorded by the tombstone (defaults to the cause).
+	 *
+	 * @return `true` if the session was successfully destroyed (or `false` if the provided session id does not exist).
+	 */
+	protected async _destroy(
+		sessionId: string,
+		useTombstone: boolean,
+		reason: SessionDestroyReason,
+		userId?: string | null,
+		recordedReason: string = reason,
+	) {
+		const key = this.key(sessionId);
+		this._fields.delete(sessionId);
+
+		let _userId = userId ?? null;
+		if (userId === undefined && this.getUserId) {
+			const [stored] = await this._fetch([key]);
+			// The session is destroyed regardless of whether it can be decoded
+			if (stored !== null) _userId = this._userId(this._decodeOrNull(stored));
+		}
+
+		const [result, live] = (await this._scripts.run('destroy', {
+			keys: this._scriptKeys(key, _userId),
+			arguments: [
+				useTombstone ? '1' : '0',
+				String(this.concurrencyGraceSeconds),
+				sessionId,
+				this.storage,
+				createTombstone(recordedReason),
+			],
+		})) as [number, number];
+		await this.cache?.invalidate([sessionId]);
+		await this._removeLegacy([sessionId]);
+
+		await this._updateIndex(_userId, 'remove', sessionId, 0, 0);
+		if (useTombstone) await this._recordTombstones([sessionId]);
+		if (live) this.emit('destroyed', { sessionId, reason });
+
+		return useTombstone ? !!result : result === 1;
+	}
+
+	/**
+	 * Record tombstones in the registry of tombstones (only if {@link RedisStoreAdapter.expirationEvents} is enabled).
+	 *
+	 * @remarks entries are pruned once their tombstones have expired for longer than
+	 * {@link RedisStoreAdapter.concurrencyGraceSeconds}.
+	 *
+	 * @param sessionIds
+	 */
+	protected async _recordTombstones(sessionIds: string[]) {
+		if (!this.expirationEvents || !sessionIds.length) return;
+
+		const key = this.tombstonesKey();
+		const graceMilliseconds = this.concurrencyGraceSeconds * 1000;
+		const score = Date.now() + graceMilliseconds;
+
+		await this.client.zAdd(
+			key,
+			sessionIds.map(value => ({ score, value })),
+		);
+		await this.client.zRemRangeByScore(key, '-inf', Date.now() - graceMilliseconds);
+		await this.client.expire(key, this.concurrencyGraceSeconds * 2);
+	}
+
+	/**
+	 * Fetch the stored values of sessions, excluding tombstones.
+	 *
+	 * @param keys
+	 *
+	 * @return the stored values (or `null` for missing sessions and tombstones) in the order of the provided keys.
+	 */
+	protected async _fetch(keys: string[]): Promise<(StoredValue | null)[]> {
+		if (this.storage === 'hash') {
+			let results: Record<string, string>[];
+			if (this.cluster) {
+				results = await Promise.all(keys.map(key => this.client.hGetAll(key)));
+			} else {
+				const multi = this.client.multi();
+				keys.forEach(key => multi.hGetAll(key));
+				results = (await multi.exec(true)) as unknown as Record<string, string>[];
+			}
+
+			return results.map(fields => (!Object.keys(fields).length || TOMBSTONE_FIELD in fields ? null : fields));
+		}
+
+		const values = this.cluster
+			? await Promise.all(keys.map(key => this.client.get(key)))
+			: await this.client.mGet(keys);
+		return values.map(value => (!value || value.startsWith(TOMBSTONE) ? null : value));
+	}
+
+	/**
+	 * Fetch the stored value of a session, in a batch of `MGET` (or pipelined) reads if batching is enabled.
+	 *
+	 * @param key
+	 *
+	 * @return the stored value (or `null` for a missing session or a tombstone).
+	 */
+	protected async _fetchOne(key: string) {
+		if (this._getLoader) return this._getLoader.load(key);
+
+		const [stored] = await this._fetch([key]);
+		return stored;
+	}
+
+	/**
+	 * Run a batch of script calls together, so that the client pipelines them.
+	 *
+	 * @param name
+	 * @param calls
+	 *
+	 * @return the script replies (or the errors of failed calls) in the order of the calls.
+	 */
+	protected _runBatch(name: ScriptName, calls: ScriptCallOptions[]) {
+		return Promise.all(
+			calls.map(call =>
+				this._scripts
+					.run(name, call)
+					.catch((error: unknown) => (error instanceof Error ? error : new Error(String(error)))),
+			),
+		);
+	}
+
+	/**
+	 * Migrate a session of the {@link RedisStoreAdapter.legacy} store, writing it with {@link RedisStoreAdapter.set}
+	 * (which refuses to overwrite a tombstone).
+	 *
+	 * @param sessionId
+	 * @param legacySession - the legacy session, if already read.
+	 *
+	 * @return the migrated session (or `null` if the legacy session is missing, cannot be decoded, expired or the write
+	 * was refused).
+	 */
+	protected async _migrateLegacy(sessionId: string, legacySession?: session.SessionData | null) {
+		const legacy = this.legacy as LegacyStore;
+		const key = legacy.key(sessionId);
+		const [sessionData] = legacySession === undefined ? await legacy.read([key]) : [legacySession];
+		if (!sessionData) return null;
+
+		const result = await this.set(sessionId, sessionData);
+		let migrated: session.SessionData | null;
+		if (result instanceof SessionEviction) {
+			migrated = result.sessionData;
+		} else if (result instanceof SessionConflict) {
+			migrated = result.existing;
+		} else if (result instanceof SessionLimitExceeded) {
+			migrated = null;
+		} else {
+			migrated = result;
+		}
+
+		if (migrated && legacy.deleteMigrated) await legacy.remove([key]);
+		return migrated;
+	}
+
+	/**
+	 * Delete the legacy sessions of destroyed, evicted or rotated sessions (only if {@link RedisStoreAdapter.legacy} is
+	 * enabled), as they would otherwise be migrated again once the sessions are missing (e.g. after their tombstones
+	 * expired).
+	 *
+	 * @param sessionIds
+	 */
+	protected async _removeLegacy(sessionIds: string[]) {
+		const { legacy } = this;
+		if (!legacy || !sessionIds.length) return;
+
+		await legacy.remove(sessionIds.map(sessionId => legacy.key(sessionId)));
+	}
+
+	/**
+	 * Read the stored values of a batch of keys with their remaining TTL, including tombstones.
+	 *
+	 * @param keys
+	 *
+	 * @return the session records of the existing keys.
+	 */
+	protected async _exportBatch(keys: string[]): Promise<SessionRecord[]> {
+		const read = (key: string) => (this.storage === 'hash' ? this.client.hGetAll(key) : this.client.get(key));
+
+		let results: [StoredValue | null, number][];
+		if (this.cluster) {
+			results = await Promise.all(keys.map(key => Promise.all([read(key), this.client.pTTL(key)])));
+		} else {
+			const multi = this.client.multi();
+			keys.forEach(key => {
+				if (this.storage === 'hash') {
+					multi.hGetAll(key);
+				} else {
+					multi.get(key);
+				}
+				multi.pTTL(key);
+			});
+			const replies = (await multi.exec(true)) as unknown as (StoredValue | null | number)[];
+			results = keys.map((_, i) => [replies[2 * i] as StoredValue | null, replies[2 * i + 1] as number]);
+		}
+
+		return results.reduce((acc, [value, pttl], i) => {
+			// The key expired or was deleted since it was scanned
+			if (value === null || (typeof value !== 'string' && !Object.keys(value).length) || pttl === -2) return acc;
+
+			acc.push({ id: keys[i].substring(this.prefix.length), value, pttl });
+			return acc;
+		}, [] as SessionRecord[]);
+	}
+
+	/**
+	 * Restore a batch of session records (see {@link RedisStoreAdapter.import}).
+	 *
+	 * @param records
+	 * @param options
+	 *
+	 * @return the number of records restored.
+	 */
+	protected async _importBatch(records: SessionRecord[], options: ImportOptions) {
+		const prefix = options.prefix ?? this.prefix;
+		const entries = records
+			.filter(({ pttl }) => pttl > 0 || pttl === -1)
+			.map(({ id, value, pttl }) => ({ id, key: `${prefix}${id}`, value: this._restore(value, options), pttl }));
+
+		const results = await Promise.all(
+			entries.map(async ({ key, value, pttl }) => {
+				if (typeof value === 'string') {
+					const reply = await this.client.set(key, value, {
+						...(pttl > 0 && { PX: pttl }),
+						...(!options.overwrite && { NX: true }),
+					});
+					return reply !== null;
+				}
+
+				if (!options.overwrite && (await this.client.exists(key))) return false;
+
+				const multi = this.client.multi().del(key).hSet(key, value);
+				if (pttl > 0) multi.pExpire(key, pttl);
+				await multi.exec(true);
+				return true;
+			}),
+		);
+
+		const imported = entries.filter((_, i) => results[i]);
+		if (prefix === this.prefix) await this.cache?.invalidate(imported.map(({ id }) => id));
+		return imported.length;
+	}
+
+	/**
+	 * Convert an exported value to the storage mode and serializer of the store.
+	 *
+	 * @param value - a serialized string value or a record of serialized fields.
+	 * @param options - the serializer of the exported value (defaults to the serializer of the store).
+	 *
+	 * @return the value to store.
+	 */
+	protected _restore(value: StoredValue, options: ImportOptions): StoredValue {
+		const tombstone = tombstoneOf(value);
+		if (tombstone !== null) return this.storage === 'hash' ? { [TOMBSTONE_FIELD]: tombstone } : tombstone;
+
+		const stored = typeof value === 'string' ? 'string' : 'hash';
+		if (!options.serializer && stored === this.storage) return value;
+
+		const source = options.serializer ?? this.serializer;
+		let sessionData: session.SessionData;
+		if (typeof value === 'string') {
+			sessionData = source.parse(value);
+		} else {
+			if (!source.parseFields) throw new Error('The serializer does not implement `parseFields`');
+			sessionData = source.parseFields(value);
+		}
+
+		if (this.storage === 'string') return this.serializer.stringify(sessionData);
+
+		const { stringifyFields } = this.serializer;
+		if (!stringifyFields) throw new Error('The serializer does not implement `stringifyFields`');
+		return stringifyFields(sessionData);
+	}
+
+	/**
+	 * Rotate the id of a session on a cluster, where the new key may be served by another node: the session is copied to
+	 * the new key (unless it exists), then the previous key is replaced by a tombstone unless the session was modified
+	 * in the meantime (the copy is then deleted, and the rotation is retried).
+	 *
+	 * @remarks the session remains readable under either id during the rotation, and is not lost if the rotation fails.
+	 *
+	 * @param oldId
+	 * @param newId
+	 *
+	 * @return the remaining TTL of the session in an array (or `null` if the session does not exist, or `0` if the new
+	 * session id already exists), as replied by the `rotate` script on a standalone server.
+	 */
+	protected async _rotateSeparately(oldId: string, newId: string) {
+		const key = this.key(oldId);
+		const newKey = this.key(newId);
+
+		for (let attempt = 0; attempt < MAX_ROTATION_ATTEMPTS; attempt += 1) {
+			// eslint-disable-next-line no-await-in-loop
+			const [[stored], ttl] = await Promise.all([this._fetch([key]), this.client.pTTL(key)]);
+			if (stored === null) return null;
+
+			// eslint-disable-next-line no-await-in-loop
+			const copied = await this._scripts.run('copy', {
+				keys: [newKey],
+				arguments:
+					typeof stored === 'string'
+						? [String(ttl), 'string', stored]
+						: [
+								String(ttl),
+								'hash',
+								...Object.entries(stored).reduce((acc, pair) => acc.concat(pair), [] as string[]),
+						  ],
+			});
+			if (!copied) return 0;
+
+			let result: unknown;
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				result = await this._scripts.run('rotate', {
+					keys: [key],
+					arguments: [
+						String(this.concurrencyGraceSeconds),
+						oldId,
+						newId,
+						createTombstone('rotated', newId),
+						typeof stored === 'string' ? stored : stored.lastModified ?? '',
+					],
+				});
+			} catch (error) {
+				// eslint-disable-next-line no-await-in-loop
+				await this.client.del(newKey);
+				throw error;
+			}
+			if (result === 1) return [ttl];
+
+			// The session was destroyed (or modified, in which case the rotation is retried) since it was read
+			// eslint-disable-next-line no-await-in-loop
+			await this.client.del(newKey);
+			if (result !== 0) return null;
+		}
+
+		throw new Error(`Session \`${oldId}\` was modified during its rotation`);
+	}
+
+	/**
+	 * Destroy a batch of sessions (by either deleting or using tombstones).
+	 *
+	 * @param keys
+	 * @param useTombstones - use tombstones for concurrency safety.
+	 * @param reason - the reason recorded by the tombstones.
+	 *
+	 * @return the number of sessions destroyed.
+	 */
+	protected async _clearBatch(keys: string[], useTombstones: boolean, reason: string) {
+		const tombstone = createTombstone(reason);
+		const sessionIds = keys.map(key => key.substring(this.prefix.length));
+		if (useTombstones) await this._recordTombstones(sessionIds);
+
+		// Keys are destroyed individually on a cluster (as a batch may span several hash slots) or to report them
+		if (this.cluster || this.listenerCount('destroyed')) {
+			const results = await Promise.all(
+				keys.map(
+					key =>
+						this._scripts.run('destroy', {
+							keys: [key],
+							arguments: [
+								useTombstones ? '1' : '0',
+								String(this.concurrencyGraceSeconds),
+								'',
+								this.storage,
+								tombstone,
+							],
+						}) as Promise<[number, number]>,
+				),
+			);
+
+			results.forEach(([, live], i) => {
+				if (live) this.emit('destroyed', { sessionId: sessionIds[i], reason: 'clear' });
+			});
+			return results.filter(([result]) => result).length;
+		}
+
+		if (!useTombstones) return this.client.del(keys);
+
+		const multi = this.client.multi();
+		if (this.storage === 'hash') {
+			keys.forEach(key => {
+				multi.del(key);
+				multi.hSet(key, TOMBSTONE_FIELD, tombstone);
+				multi.expire(key, this.concurrencyGraceSeconds);
+			});
+
+			return multi.exec(true).then(() => keys.length);
+		}
+
+		keys.forEach(key => {
+			multi.set(key, tombstone, {
+				EX: this.concurrencyGraceSeconds,
+			});
+		});
+
+		return multi.exec(true).then(results => results.filter(result => result !== null).length);
+	}
+
+	/**
+	 * Count the sessions of a batch, excluding tombstones.
+	 *
+	 * @param keys
+	 *
+	 * @return the number of sessions.
+	 */
+	protected async _countBatch(keys: string[]) {
+		if (this.storage !== 'hash') {
+			const values = await this._fetch(keys);
+			return values.filter(value => value !== null).length;
+		}
+
+		let results: boolean[];
+		if (this.cluster) {
+			results = await Promise.all(keys.map(key => this.client.hExists(key, TOMBSTONE_FIELD)));
+		} else {
+			const multi = this.client.multi();
+			keys.forEach(key => multi.hExists(key, TOMBSTONE_FIELD));
+			results = (await multi.exec(true)) as unknown as boolean[];
+		}
+
+		return results.filter(result => !result).length;
+	}
+
+	/**
+	 * Get the keys of a session script call.
+	 *
+	 * @remarks the user index key is omitted on a cluster, as it may be served by another node than the session key
+	 * (see {@link RedisStoreAdapter._updateIndex}).
+	 *
+	 * @param key - the session key.
+	 * @param userId - the user id indexing the session (or `null` if the session is not indexed).
+	 *
+	 * @return the script keys.
+	 */
+	protected _scriptKeys(key: string, userId: string | null) {
+		return userId === null || this.cluster ? [key] : [key, this.userKey(userId)];
+	}
+
+	/**
+	 * Update the index of a user separately from the session scripts (only on a cluster; see
+	 * {@link RedisStoreAdapter._scriptKeys}).
+	 *
+	 * @param userId - the user id indexing the session (or `null` if the session is not indexed).
+	 * @param operation - add the session, remove the session or only extend the TTL of the index.
+	 * @param sessionId
+	 * @param score - the `lastModified` time of the session.
+	 * @param ttlMilliseconds - the minimum TTL of the index.
+	 */
+	protected async _updateIndex(
+		userId: string | null,
+		operation: 'add' | 'extend' | 'remove',
+		sessionId: string,
+		score: number,
+		ttlMilliseconds: number,
+	) {
+		if (userId === null || !this.cluster) return;
+
+		await this._scripts.run('index', {
+			keys: [this.userKey(userId)],
+			arguments: [operation, sessionId, String(score), String(ttlMilliseconds)],
+		});
+	}
+
+	/**
+	 * Read the sessions indexed for a user, removing the sessions no longer owned by the user (i.e. expired, destroyed
+	 * or since written for another user) from the index.
+	 *
+	 * @param userId
+	 * @param decode - decodes a stored value (sessions that cannot be decoded are removed from the index).
+	 * @param context - the instrumented operation, updated with the number of keys and bytes read.
+	 *
+	 * @return the session ids and sessions of the user, from the least recently modified.
+	 */
+	protected async _ownedSessions(
+		userId: string,
+		decode: (key: string, stored: StoredValue) => Promise<session.SessionData | null>,
+		context: OperationContext | null,
+	) {
+		const userKey = this.userKey(userId);
+		const sessionIds = await this.client.zRange(userKey, 0, -1);
+		if (!sessionIds.length) return [];
+
+		const keys = sessionIds.map(sessionId => this.key(sessionId));
+		const values = await this._fetch(keys);
+		if (context) {
+			context.keyCount = sessionIds.length;
+			context.payloadBytes = values.reduce((n, value) => n + (value === null ? 0 : sizeOf(value)), 0);
+		}
+
+		const decoded = await Promise.all(values.map((value, i) => (value === null ? null : decode(keys[i], value))));
+
+		const owned: [string, session.SessionData][] = [];
+		const stale: string[] = [];
+		decoded.forEach((sessionData, i) => {
+			if (sessionData && this._userId(sessionData) === userId) {
+				owned.push([sessionIds[i], sessionData]);
+			} else {
+				stale.push(sessionIds[i]);
+			}
+		});
+
+		if (stale.length) await this.client.zRem(userKey, stale);
+		return owned;
+	}
+
+	/**
+	 * Remove the sessions no longer owned by a user from the index of the user before the `set` script enforces
+	 * {@link RedisStoreAdapter.maxSessionsPerUser}, as the script cannot decode sessions to check their owner (e.g. a
+	 * session whose user changed would otherwise be counted, and possibly evicted, for its previous user).
+	 *
+	 * @remarks the index is only read when a new session of the user would reach the limit; on a cluster, the sessions
+	 * are checked by {@link RedisStoreAdapter._limitSeparately} instead.
+	 *
+	 * @param sessionId - the id of the session about to be written.
+	 * @param userId - the user id indexing the session (or `null` if the session is not indexed).
+	 */
+	protected async _pruneIndex(sessionId: string, userId: string | null) {
+		if (userId === null || this.cluster || !this.maxSessionsPerUser) return;
+
+		const userKey = this.userKey(userId);
+		const [score, count] = await Promise.all([this.client.zScore(userKey, sessionId), this.client.zCard(userKey)]);
+		if (score !== null || count < this.maxSessionsPerUser) return;
+
+		await this._ownedSessions(userId, (_, stored) => Promise.resolve(this._decodeOrNull(stored)), null);
+	}
+
+	/**
+	 * Enforce {@link RedisStoreAdapter.maxSessionsPerUser} separately from the session scripts (only on a cluster; see
+	 * {@link RedisStoreAdapter._scriptKeys}).
+	 *
+	 * @remarks non-atomic operation
+	 *
+	 * @param sessionId - the id of the session about to be written.
+	 * @param userId - the user id indexing the session (or `null` if the session is not indexed).
+	 *
+	 * @return the ids of the evicted sessions (or `null` if the write is rejected).
+	 */
+	protected async _limitSeparately(sessionId: string, userId: string | null) {
+		if (userId === null || !this.cluster || !this.maxSessionsPerUser) return [];
+
+		const owned = await this._ownedSessions(
+			userId,
+			(_, stored) => Promise.resolve(this._decodeOrNull(stored)),
+			null,
+		);
+		if (owned.some(([id]) => id === sessionId)) return [];
+
+		const live = owned.map(([id]) => id);
+		const excess = live.length - this.maxSessionsPerUser + 1;
+		if (excess <= 0) return [];
+		if (this.sessionLimitPolicy === 'reject') return null;
+
+		const evicted = live.slice(0, excess);
+		await Promise.all(evicted.map(id => this._destroy(id, true, 'evicted', userId)));
+		return evicted;
+	}
+
+	/**
+	 * Decode a stored session value and upgrade it to the latest schema version.
+	 *
+	 * @param stored - a serialized string value or a record of serialized fields.
+	 *
+	 * @return the session object.
+	 */
+	protected _decode(stored: StoredValue) {
+		return migrateSession(this._parse(stored), this.migrations);
+	}
+
+	/**
+	 * Decode a stored session value as is.
+	 *
+	 * @param stored - a serialized string value or a record of serialized fields.
+	 *
+	 * @return the session object.
+	 */
+	protected _parse(stored: StoredValue) {
+		if (typeof stored === 'string') return this.serializer.parse(stored);
+
+		const { parseFields } = this.serializer;
+		if (!parseFields) throw new Error('The serializer does not implement `parseFields`');
+		return parseFields(stored);
+	}
+
+	/**
+	 * Decode a stored session value and upgrade it to the latest schema version, writing the upgraded session back if
+	 * {@link RedisStoreAdapter.writeBackMigrations} is enabled.
+	 *
+	 * @param key
+	 * @param stored - a serialized string value or a record of serialized fields.
+	 *
+	 * @return the session object (or `null` if it cannot be decoded, depending on
+	 * {@link RedisStoreAdapter.onParseError}).
+	 */
+	protected async _upgrade(key: string, stored: StoredValue) {
+		let sessionData: session.SessionData;
+		let migrated: session.SessionData;
+		try {
+			sessionData = this._parse(stored);
+			migrated = migrateSession(sessionData, this.migrations);
+		} catch (error) {
+			return this._handleParseError(key, stored, error);
+		}
+
+		if (migrated !== sessionData && this.writeBackMigrations) await this._rewrite(key, stored, migrated);
+		return migrated;
+	}
+
+	/**
+	 * Decode a stored session value, handling decoding errors with {@link RedisStoreAdapter.onParseError}.
+	 *
+	 * @param key
+	 * @param stored - a serialized string value or a record of serialized fields.
+	 *
+	 * @return the session object (or `null` if it cannot be decoded and the error is not thrown).
+	 */
+	protected async _tryDecode(key: string, stored: StoredValue) {
+		try {
+			return this._decode(stored);
+		} catch (error) {
+			return this._handleParseError(key, stored, error);
+		}
+	}
+
+	/**
+	 * Decode a stored session value, ignoring decoding errors.
+	 *
+	 * @param stored - a serialized string value or a record of serialized fields.
+	 *
+	 * @return the session object (or `null` if it cannot be decoded).
+	 */
+	protected _decodeOrNull(stored: StoredValue) {
+		try {
+			return this._decode(stored);
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Handle a stored session value that cannot be decoded with {@link RedisStoreAdapter.onParseError}.
+	 *
+	 * @param key
+	 * @param stored - a serialized string value or a record of serialized fields.
+	 * @param error - the decoding error.
+	 *
+	 * @return `null` (unless the error is thrown).
+	 */
+	protected async _handleParseError(key: string, stored: StoredValue, error: unknown) {
+		if (this.onParseError === 'throw') throw error;
+		if (this.onParseError === 'quarantine') await this._quarantine(key, stored, error);
+		return null;
+	}
+
+	/**
+	 * Move a stored session value that cannot be decoded to its quarantine key (retained for 7 days), along with the
+	 * decoding error, the remaining TTL of the session and the quarantine time.
+	 *
+	 * @remarks the session key is only deleted if the stored value was not modified in the meantime.
+	 *
+	 * @param key
+	 * @param stored - a serialized string value or a record of serialized fields.
+	 * @param error - the decoding error.
+	 */
+	protected async _quarantine(key: string, stored: StoredValue, error: unknown) {
+		const sessionId = key.substring(this.prefix.length);
+		const quarantineKey = this.quarantineKey(sessionId);
+
+		// The value is quarantined before the session key is deleted, so that it is not lost on failure
+		const ttl = await this.client.pTTL(key);
+		await this.client.hSet(quarantineKey, {
+			value: typeof stored === 'string' ? stored : JSON.stringify(stored),
+			storage: this.storage,
+			error: error instanceof Error ? error.message : String(error),
+			quarantinedAt: String(Date.now()),
+			ttl: String(ttl),
+		});
+		await this.client.expire(quarantineKey, QUARANTINE_TTL_SECONDS);
+
+		const removed = await this._scripts.run('quarantine', {
+			keys: [key],
+			arguments: [this.storage, typeof stored === 'string' ? stored : stored.lastModified ?? ''],
+		});
+		if (!removed) {
+			await this.client.del(quarantineKey);
+			return;
+		}
+
+		await this.cache?.invalidate([sessionId]);
+		this.emit('quarantined', { sessionId, key: quarantineKey, error });
+	}
+
+	/**
+	 * Write the fields of a session in the `hash` storage mode; only changed fields are written if the fields of the
+	 * loaded session version are known.
+	 *
+	 * @param sessionId
+	 * @param keys - the session key and the user index key (if indexed).
+	 * @param sessionData
+	 * @param ttlMilliseconds
+	 * @param version - the `lastModified` time of the loaded session.
+	 * @param context - the instrumented operation, updated with the number of bytes written.
+	 *
+	 * @return the raw result of the `set-hash` script.
+	 */
+	protected async _setFields(
+		sessionId: string,
+		keys: string[],
+		sessionData: session.SessionData & { lastModified: Date },
+		ttlMilliseconds: number,
+		version: string,
+		limit: string[],
+		context?: OperationContext,
+	) {
+		const { stringifyFields } = this.serializer;
+		if (!stringifyFields) throw new Error('The serializer does not implement `stringifyFields`');
+
+		const fields = stringifyFields(sessionData);
+		const base = this._fields.get(sessionId);
+		const nextVersion = String(sessionData.lastModified.getTime());
+
+		const write = (partial: boolean) => {
+			const changed = Object.entries(fields).filter(
+				([field, value]) => !partial || base?.fields[field] !== value,
+			);
+			const deleted = partial && base ? Object.keys(base.fields).filter(field => !(field in fields)) : [];
+			const pairs = changed.reduce((acc, pair) => acc.concat(pair), [] as string[]);
+			if (context) context.payloadBytes = sizeOf(toRecord(pairs));
+
+			return this._scripts.run('set-hash', {
+				keys,
+				arguments: [
+					String(ttlMilliseconds),
+					sessionId,
+					nextVersion,
+					this.optimisticLocking ? '1' : '0',
+					version,
+					partial ? 'partial' : 'full',
+					...limit,
+					String(changed.length),
+					...pairs,
+					...deleted,
+				],
+			});
+		};
+
+		let result = await write(base?.version === version);
+		// The session expired since it was loaded, so it must be written in full
+		if (Array.isArray(result) && result[0] === 'MISSING') result = await write(false);
+
+		const status: unknown = Array.isArray(result) ? result[0] : result;
+		if (status === 'created' || status === 'updated') this._saveFields(sessionId, nextVersion, fields);
+		return result;
+	}
+
+	/**
+	 * Save the serialized fields of a session version for later partial writes.
+	 *
+	 * @param sessionId
+	 * @param version - the `lastModified` time of the session.
+	 * @param fields
+	 */
+	protected _saveFields(sessionId: string, version: string, fields: Record<string, string>) {
+		if (this._fields.size >= MAX_FIELD_SNAPSHOTS) {
+			this._fields.delete(this._fields.keys().next().value as string);
+		}
+
+		this._fields.delete(sessionId);
+		this._fields.set(sessionId, { version, fields });
+	}
+
+	/**
+	 * Rewrite the stored sessions selected by a callback, batch by batch.
+	 *
+	 * @param select - returns the session object to write in place of a stored value (or `null` to skip it).
+	 *
+	 * @return the number of sessions rewritten.
+	 */
+	protected async _rewriteAll(select: (stored: StoredValue) => session.SessionData | null) {
+		let n = 0;
+		// eslint-disable-next-line no-restricted-syntax
+		for await (const keysBatch of this.generateKeys()) {
+			const values = await this._fetch(keysBatch);
+			const results = await Promise.all(
+				values.map(async (stored, i) => {
+					if (stored === null) return false;
+
+					let sessionData: session.SessionData | null;
+					try {
+						sessionData = select(stored);
+					} catch (error) {
+						sessionData = await this._handleParseError(keysBatch[i], stored, error);
+					}
+					return sessionData ? this._rewrite(keysBatch[i], stored, sessionData) : false;
+				}),
+			);
+			n += results.filter(result => result).length;
+		}
+
+		return n;
+	}
+
+	/**
+	 * Rewrite a stored session value with the current serializer, preserving its TTL.
+	 *
+	 * @param key
+	 * @param stored - the stored value expected to be replaced.
+	 * @param sessionData - the session object to write (defaults to the decoded stored value).
+	 *
+	 * @return `true` if the session was rewritten (or `false` if it was modified or destroyed in the meantime).
+	 */
+	protected async _rewrite(key: string, stored: StoredValue, sessionData = this._decode(stored)) {
+		let args: string[];
+		if (typeof stored === 'string') {
+			args = ['string', stored, this.serializer.stringify(sessionData)];
+		} else {
+			const { stringifyFields } = this.serializer;
+			if (!stringifyFields) throw new Error('The serializer does not implement `stringifyFields`');
+
+			const fields = Object.entries(stringifyFields(sessionData));
+			args = [
+				'hash',
+				stored.lastModified ?? '',
+				...fields.reduce((acc, pair) => acc.concat(pair), [] as string[]),
+			];
 		}
 
-		const batchResults = await Promise.all(batchPromises);
-		return Object.assign({}, ...batchResults) as SessionDataDict;
+		const result = await this._scripts.run('rewrite', { keys: [key], arguments: args });
+		await this.cache?.invalidate([key.substring(this.prefix.length)]);
+		return result === 1;
 	}
 }
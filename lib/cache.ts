@@ -0,0 +1,242 @@
+import { randomBytes } from 'crypto';
+import type { createClient } from 'redis';
+import { isCluster, nodeClients } from './cluster';
+import { LruCache } from './lru';
+
+type Client = ReturnType<typeof createClient>;
+
+const INVALIDATE_CHANNEL = '__redis__:invalidate';
+
+/**
+ * The mechanism invalidating the cached sessions of every store instance when a session is written:
+ * - `pubsub`: the store publishes the ids of written sessions to a pub/sub channel.
+ * - `tracking`: Redis broadcasts the written keys under the store prefix (`CLIENT TRACKING` in `BCAST` mode).
+ */
+export type CacheInvalidation = 'pubsub' | 'tracking';
+
+/**
+ * Configuration options for {@link SessionCache}.
+ */
+export interface SessionCacheOptions {
+	/* The maximum number of cached sessions. */
+	maxEntries?: number;
+	/* The maximum total size in bytes of the cached session values. */
+	maxBytes?: number;
+	/* The mechanism invalidating cached sessions across store instances (`tracking` is unsupported on a cluster). */
+	invalidation?: CacheInvalidation;
+	/* The pub/sub channel of the `pubsub` invalidation (defaults to `${prefix}invalidate`). */
+	channel?: string;
+}
+
+/**
+ * A stored session value cached by {@link SessionCache}.
+ */
+export type CachedValue = string | Record<string, string>;
+
+/**
+ * Measure the size of a stored session value.
+ *
+ * @param value
+ *
+ * @return the size in bytes of the serialized value (or of its serialized fields and values).
+ */
+export const sizeOf = (value: CachedValue) =>
+	typeof value === 'string'
+		? Buffer.byteLength(value)
+		: Object.entries(value).reduce((n, [field, text]) => n + Buffer.byteLength(field) + Buffer.byteLength(text), 0);
+
+/**
+ * An in-process cache of stored session values, invalidated when sessions are written by any store instance.
+ *
+ * @remarks sessions are only cached while the cache is subscribed to invalidations (see {@link SessionCache.start});
+ * cached sessions are dropped whenever the subscription is interrupted.
+ */
+export class SessionCache {
+	readonly client: Client;
+	readonly prefix: string;
+	readonly invalidation: CacheInvalidation;
+	readonly channel: string;
+	protected readonly _entries: LruCache<CachedValue>;
+	/* The duplicated client receiving invalidations (and enabling tracking in the `tracking` mode). */
+	protected _subscriber: Client | null = null;
+	protected _tracker: Client | null = null;
+	protected _ready = false;
+	/* Incremented on every invalidation to discard values fetched before an invalidation. */
+	protected _generation = 0;
+
+	constructor(client: Client, prefix: string, options: SessionCacheOptions = {}) {
+		this.client = client;
+		this.prefix = prefix;
+		this.invalidation = options.invalidation ?? 'pubsub';
+		this.channel = options.channel ?? `${prefix}invalidate`;
+		this._entries = new LruCache(options.maxEntries ?? 1000, options.maxBytes ?? 16 * 1024 * 1024);
+
+		if (this.invalidation === 'tracking' && isCluster(client)) {
+			throw new Error('The `tracking` cache invalidation is unsupported on a cluster');
+		}
+	}
+
+	/* Indicates whether sessions are cached (i.e. the cache is subscribed to invalidations). */
+	get ready() {
+		return this._ready;
+	}
+
+	/**
+	 * Subscribe to invalidations with duplicated clients; sessions are cached once subscribed.
+	 */
+	async start() {
+		if (this._subscriber) return;
+
+		const name = `connect-redis-session:${randomBytes(8).toString('hex')}`;
+		const subscriber = nodeClients(this.client)[0].duplicate({ name });
+		this._subscriber = subscriber;
+
+		const interrupt = () => this._interrupt();
+		subscriber.on('error', interrupt);
+		subscriber.on('reconnecting', interrupt);
+		subscriber.on('end', interrupt);
+		await subscriber.connect();
+
+		if (this.invalidation === 'pubsub') {
+			await subscriber.subscribe(this.channel, sessionId => this._invalidate(sessionId ? [sessionId] : null));
+			subscriber.on('ready', () => this._resume());
+			this._resume();
+			return;
+		}
+
+		// Invalidation messages are redirected to the subscriber, which may not run commands once subscribed (RESP2)
+		await subscriber.subscribe(INVALIDATE_CHANNEL, (keys: string[] | string | null) => {
+			if (keys === null) {
+				this._invalidate(null);
+				return;
+			}
+
+			const sessionIds = ([] as string[])
+				.concat(keys)
+				.filter(key => key.startsWith(this.prefix))
+				.map(key => key.substring(this.prefix.length));
+			this._invalidate(sessionIds);
+		});
+
+		const tracker = this.client.duplicate();
+		this._tracker = tracker;
+		tracker.on('error', interrupt);
+		tracker.on('reconnecting', interrupt);
+		tracker.on('end', interrupt);
+		await tracker.connect();
+
+		const enableTracking = async () => {
+			const clients = String(await tracker.sendCommand(['CLIENT', 'LIST', 'TYPE', 'pubsub']));
+			const id = clients
+				.split('\n')
+				.find(line => line.includes(` name=${name} `))
+				?.match(/^id=(\d+)/)?.[1];
+			if (!id) throw new Error('Failed to resolve the cache invalidation subscriber');
+
+			await tracker.sendCommand(['CLIENT', 'TRACKING', 'OFF']);
+			await tracker.sendCommand(['CLIENT', 'TRACKING', 'ON', 'REDIRECT', id, 'BCAST', 'PREFIX', this.prefix]);
+			this._resume();
+		};
+
+		await enableTracking();
+
+		// Tracking is disabled (or redirected to a closed connection) when either client reconnects
+		const reenableTracking = () => {
+			if (this._subscriber?.isOpen && this._tracker?.isOpen) enableTracking().catch(interrupt);
+		};
+		subscriber.on('ready', reenableTracking);
+		tracker.on('ready', reenableTracking);
+	}
+
+	/**
+	 * Unsubscribe from invalidations and drop the cached sessions.
+	 */
+	async stop() {
+		const clients = [this._subscriber, this._tracker].filter((client): client is Client => !!client);
+		this._subscriber = null;
+		this._tracker = null;
+		this._interrupt();
+
+		await Promise.all(clients.map(client => client.quit()));
+	}
+
+	/**
+	 * Get a cached session value.
+	 *
+	 * @param sessionId
+	 *
+	 * @return the stored session value (or `undefined` if not cached).
+	 */
+	get(sessionId: string) {
+		return this._ready ? this._entries.get(sessionId) : undefined;
+	}
+
+	/**
+	 * Get the current generation of the cache, to be provided to {@link SessionCache.set} for values fetched afterwards.
+	 *
+	 * @return the generation.
+	 */
+	generation() {
+		return this._generation;
+	}
+
+	/**
+	 * Cache a stored session value, unless the cache was invalidated since the value was fetched.
+	 *
+	 * @param sessionId
+	 * @param value
+	 * @param generation - the generation of the cache before the value was fetched.
+	 * @param ttlMilliseconds - the remaining TTL of the session.
+	 */
+	set(sessionId: string, value: CachedValue, generation: number, ttlMilliseconds: number) {
+		if (!this._ready || generation !== this._generation) return;
+		this._entries.set(sessionId, value, sizeOf(value), ttlMilliseconds);
+	}
+
+	/**
+	 * Invalidate cached sessions in every store instance.
+	 *
+	 * @param sessionIds - the ids of the written sessions (or `null` to invalidate all sessions).
+	 */
+	async invalidate(sessionIds: string[] | null) {
+		this._invalidate(sessionIds);
+		if (this.invalidation !== 'pubsub') return;
+
+		if (sessionIds === null) {
+			await this.client.publish(this.channel, '');
+		} else {
+			await Promise.all(sessionIds.map(sessionId => this.client.publish(this.channel, sessionId)));
+		}
+	}
+
+	/**
+	 * Drop cached sessions locally.
+	 *
+	 * @param sessionIds - the ids of the sessions (or `null` to drop all sessions).
+	 */
+	protected _invalidate(sessionIds: string[] | null) {
+		this._generation += 1;
+
+		if (sessionIds === null) {
+			this._entries.clear();
+			return;
+		}
+
+		sessionIds.forEach(sessionId => this._entries.delete(sessionId));
+	}
+
+	/**
+	 * Stop caching sessions until the subscription to invalidations is restored.
+	 */
+	protected _interrupt() {
+		this._ready = false;
+		this._invalidate(null);
+	}
+
+	/**
+	 * Resume caching sessions once subscribed to invalidations.
+	 */
+	protected _resume() {
+		if (this._subscriber) this._ready = true;
+	}
+}
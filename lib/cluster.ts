@@ -0,0 +1,46 @@
+import type { createClient, createCluster } from 'redis';
+
+type Client = ReturnType<typeof createClient>;
+
+/**
+ * A V4 redis cluster client.
+ */
+export type Cluster = ReturnType<typeof createCluster>;
+
+/**
+ * Check whether a client is a cluster client (created with `createCluster`).
+ *
+ * @param client
+ *
+ * @return `true` for cluster clients.
+ */
+export const isCluster = (client: unknown): client is Cluster =>
+	!!client && typeof (client as Partial<Cluster>).getMasters === 'function';
+
+/**
+ * Get the clients of the nodes serving the keyspace (i.e. the master nodes of a cluster).
+ *
+ * @param client - a client or cluster client.
+ *
+ * @return the node clients (or the provided client if it is not a cluster client).
+ */
+export const nodeClients = (client: Client | Cluster): Client[] => {
+	if (!isCluster(client)) return [client];
+	return client.getMasters().map(node => node.client as unknown as Client);
+};
+
+/**
+ * Get the nodes serving the keyspace ordered by node id, so that the order is stable across calls.
+ *
+ * @param client - a client or cluster client.
+ *
+ * @return the node ids and clients (or the provided client with an empty id if it is not a cluster client).
+ */
+export const keyspaceNodes = (client: Client | Cluster): { id: string; client: Client }[] => {
+	if (!isCluster(client)) return [{ id: '', client }];
+
+	return client
+		.getMasters()
+		.map(node => ({ id: node.id, client: node.client as unknown as Client }))
+		.sort((a, b) => (a.id < b.id ? -1 : 1));
+};
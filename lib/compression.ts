@@ -0,0 +1,71 @@
+import * as session from 'express-session';
+import * as zlib from 'zlib';
+import serializer, { Serializer } from './serializer';
+
+const HEADER = 'z:v1';
+
+/**
+ * The compression algorithms supported by {@link createCompressedSerializer}.
+ */
+export type CompressionAlgorithm = 'gzip' | 'deflate' | 'brotli';
+
+/**
+ * Configuration options for {@link createCompressedSerializer}.
+ */
+export interface CompressedSerializerOptions {
+	/* The algorithm used to compress new values (or `false` to only decompress existing values). */
+	algorithm?: CompressionAlgorithm | false;
+	/* The minimum size in bytes of a value to compress; smaller values are stored uncompressed. */
+	threshold?: number;
+	/* The serializer encoding sessions before compression. */
+	serializer?: Serializer;
+}
+
+const codecs: Record<
+	CompressionAlgorithm,
+	{ compress: (data: Buffer) => Buffer; decompress: (data: Buffer) => Buffer }
+> = {
+	gzip: { compress: zlib.gzipSync, decompress: zlib.gunzipSync },
+	deflate: { compress: zlib.deflateSync, decompress: zlib.inflateSync },
+	brotli: { compress: zlib.brotliCompressSync, decompress: zlib.brotliDecompressSync },
+};
+
+const isAlgorithm = (value: string): value is CompressionAlgorithm => Object.keys(codecs).includes(value);
+
+/**
+ * Create a serializer compressing the values of an inner serializer with `zlib`.
+ *
+ * @remarks compressed values are encoded as `z:v1:<algorithm>:<base64>`, while values below the threshold are stored
+ * as encoded by the inner serializer; both kinds of values (including those stored before compression was enabled) are
+ * parsed regardless of the configured algorithm.
+ *
+ * @param options
+ *
+ * @return the compressing serializer.
+ */
+export const createCompressedSerializer = (options: CompressedSerializerOptions = {}): Serializer => {
+	const { algorithm = 'gzip', threshold = 1024 } = options;
+	const inner = options.serializer ?? serializer;
+
+	return {
+		parse(text: string): session.SessionData {
+			if (!text.startsWith('z:')) return inner.parse(text);
+
+			const [tag, version, name, data] = text.split(':');
+			if (`${tag}:${version}` !== HEADER || !isAlgorithm(name) || data === undefined) {
+				throw new Error('Unsupported compressed session value format');
+			}
+
+			return inner.parse(codecs[name].decompress(Buffer.from(data, 'base64')).toString('utf8'));
+		},
+		stringify(value: session.SessionData) {
+			const text = inner.stringify(value);
+			if (!algorithm || Buffer.byteLength(text) < threshold) return text;
+
+			const data = codecs[algorithm].compress(Buffer.from(text, 'utf8'));
+			return `${HEADER}:${algorithm}:${data.toString('base64')}`;
+		},
+		// Stored values may be compressed even if compression is disabled (e.g. by other store instances)
+		opaque: true,
+	};
+};
@@ -0,0 +1,16 @@
+import * as session from 'express-session';
+
+/**
+ * The result of a write rejected by optimistic locking (see {@link RedisStoreAdapterOptions.optimisticLocking}).
+ */
+export class SessionConflict {
+	/* The id of the session that could not be written. */
+	readonly sessionId: string;
+	/* The session data currently stored, as updated during a concurrent request. */
+	readonly existing: session.SessionData;
+
+	constructor(sessionId: string, existing: session.SessionData) {
+		this.sessionId = sessionId;
+		this.existing = existing;
+	}
+}
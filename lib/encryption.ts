@@ -0,0 +1,110 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import * as session from 'express-session';
+import serializer, { Serializer } from './serializer';
+
+const ALGORITHM = 'aes-256-gcm';
+const HEADER = 'enc:v1';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const KEY_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Configuration options for {@link createEncryptedSerializer}.
+ */
+export interface EncryptedSerializerOptions {
+	/* A keyring of 256-bit encryption keys mapped by key id (ids may contain alphanumerics, `_` and `-`). */
+	keys: Record<string, Buffer>;
+	/* The id of the key used to encrypt new values. */
+	activeKeyId: string;
+	/* The serializer encoding sessions before encryption. */
+	serializer?: Serializer;
+	/* Accept values stored without encryption (e.g. while enabling encryption for an existing store). */
+	allowPlaintext?: boolean;
+}
+
+/**
+ * A serializer sealing session data with AES-256-GCM.
+ */
+export interface EncryptedSerializer extends Serializer {
+	/* Check whether a stored value is encrypted with the active key. */
+	isCurrent: (text: string) => boolean;
+}
+
+/**
+ * An error raised when a stored value cannot be decrypted (e.g. it was tampered with or its key is unknown).
+ */
+export class SessionDecryptionError extends Error {
+	readonly name = 'SessionDecryptionError';
+}
+
+/**
+ * Create a serializer encrypting the values of an inner serializer with AES-256-GCM.
+ *
+ * @remarks values are encoded as `enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>` (base64 segments), so that values
+ * encrypted with previous keys of the keyring remain readable after the active key is rotated. Values are not bound
+ * to their session id (sessions are moved between ids by `rotate` and `import`), so a value copied to another session
+ * key still decrypts.
+ *
+ * @param options
+ *
+ * @return the encrypting serializer.
+ */
+export const createEncryptedSerializer = (options: EncryptedSerializerOptions): EncryptedSerializer => {
+	const { keys, activeKeyId, allowPlaintext = false } = options;
+	const inner = options.serializer ?? serializer;
+
+	Object.entries(keys).forEach(([keyId, key]) => {
+		if (!KEY_ID_PATTERN.test(keyId)) throw new Error(`Invalid encryption key id \`${keyId}\``);
+		if (key.length !== KEY_LENGTH) throw new Error(`Encryption key \`${keyId}\` must be ${KEY_LENGTH} bytes long`);
+	});
+	if (!keys[activeKeyId]) throw new Error(`Missing active encryption key \`${activeKeyId}\``);
+
+	const encrypt = (text: string) => {
+		const iv = randomBytes(IV_LENGTH);
+		const header = `${HEADER}:${activeKeyId}`;
+		const cipher = createCipheriv(ALGORITHM, keys[activeKeyId], iv);
+		cipher.setAAD(Buffer.from(header));
+
+		const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+		const tag = cipher.getAuthTag();
+		return [header, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+	};
+
+	const decrypt = (text: string) => {
+		const segments = text.split(':');
+		if (segments.length !== 6) throw new SessionDecryptionError('Malformed encrypted session value');
+
+		const [, , keyId, iv, tag, ciphertext] = segments;
+		const key = keys[keyId];
+		if (!key) throw new SessionDecryptionError(`Unknown encryption key \`${keyId}\``);
+
+		try {
+			const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+			decipher.setAAD(Buffer.from(`${HEADER}:${keyId}`));
+			decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+			const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+			return plaintext.toString('utf8');
+		} catch {
+			throw new SessionDecryptionError('Encrypted session value failed authentication');
+		}
+	};
+
+	return {
+		parse(text: string): session.SessionData {
+			if (!text.startsWith(`${HEADER}:`)) {
+				if (allowPlaintext) return inner.parse(text);
+				throw new SessionDecryptionError('Session value is not encrypted');
+			}
+
+			return inner.parse(decrypt(text));
+		},
+		stringify(value: session.SessionData) {
+			return encrypt(inner.stringify(value));
+		},
+		isCurrent(text: string) {
+			return text.startsWith(`${HEADER}:${activeKeyId}:`);
+		},
+		opaque: true,
+	};
+};
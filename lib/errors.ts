@@ -0,0 +1,61 @@
+/* eslint-disable max-classes-per-file */
+import type { SessionConflict } from './conflict';
+import type { SessionLimitExceeded } from './limit';
+
+/**
+ * An error reporting a write rejected because the stored session was updated during a concurrent request.
+ */
+export class SessionConflictError extends Error {
+	readonly name = 'SessionConflictError';
+	/* The conflict reported by the store adapter. */
+	readonly conflict: SessionConflict;
+
+	constructor(conflict: SessionConflict) {
+		super(`Session ${conflict.sessionId} was modified by a concurrent request`);
+		this.conflict = conflict;
+	}
+}
+
+/**
+ * An error reporting a new session rejected because its user owns the maximum number of sessions (see
+ * {@link RedisStoreAdapterOptions.maxSessionsPerUser}).
+ */
+export class SessionLimitError extends Error {
+	readonly name = 'SessionLimitError';
+	/* The rejection reported by the store adapter. */
+	readonly rejection: SessionLimitExceeded;
+
+	constructor(rejection: SessionLimitExceeded) {
+		super(`Session ${rejection.sessionId} exceeds the limit of ${rejection.limit} sessions of its user`);
+		this.rejection = rejection;
+	}
+}
+
+/**
+ * An error reporting an operation that did not complete in time (see {@link ResilienceOptions.timeoutMs}).
+ */
+export class StoreTimeoutError extends Error {
+	readonly name = 'StoreTimeoutError';
+	readonly operation: string;
+	readonly timeoutMs: number;
+
+	constructor(operation: string, timeoutMs: number) {
+		super(`Session store operation \`${operation}\` timed out after ${timeoutMs}ms`);
+		this.operation = operation;
+		this.timeoutMs = timeoutMs;
+	}
+}
+
+/**
+ * An error reporting an operation rejected without being attempted, as the circuit breaker is open.
+ */
+export class CircuitOpenError extends Error {
+	readonly name = 'CircuitOpenError';
+	readonly operation: string;
+
+	constructor(operation: string) {
+		super(`Session store operation \`${operation}\` was rejected as the circuit is open`);
+		this.operation = operation;
+	}
+}
+/* eslint-enable max-classes-per-file */
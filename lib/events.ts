@@ -0,0 +1,64 @@
+import * as session from 'express-session';
+
+/**
+ * The cause of a destroyed session.
+ */
+export type SessionDestroyReason =
+	/* Destroyed explicitly (e.g. on logout). */
+	| 'destroy'
+	/* Set or touched with a non-positive TTL. */
+	| 'expired'
+	/* Past its maximum lifetime (see {@link RedisStoreAdapterOptions.maxLifetimeSeconds}). */
+	| 'lifetime'
+	/* Destroyed with the other sessions of its user. */
+	| 'user'
+	/* Destroyed while clearing the store. */
+	| 'clear'
+	/* Evicted by a new session of its user (see {@link RedisStoreAdapterOptions.maxSessionsPerUser}). */
+	| 'evicted';
+
+/**
+ * The payloads of the session lifecycle events mapped by event name.
+ */
+export interface SessionEvents {
+	/* A session was written for the first time. */
+	created: { sessionId: string; sessionData: session.SessionData };
+	/* An existing session was written. */
+	updated: { sessionId: string; sessionData: session.SessionData };
+	/* The expiration of a session was renewed. */
+	touched: { sessionId: string; expires: Date };
+	/* A session was destroyed by the store. */
+	destroyed: { sessionId: string; reason: SessionDestroyReason };
+	/* A session was moved to a new id. */
+	rotated: { sessionId: string; newId: string };
+	/* A session timed out in Redis (only emitted while an {@link ExpirationSubscriber} is running). */
+	expired: { sessionId: string };
+	/* A stored session value that cannot be decoded was moved to its quarantine key. */
+	quarantined: { sessionId: string; key: string; error: unknown };
+	/* A session was evicted by a new session of its user (see {@link RedisStoreAdapterOptions.maxSessionsPerUser}). */
+	evicted: { sessionId: string; userId: string; by: string };
+}
+
+/**
+ * The name of a session lifecycle event.
+ */
+export type SessionEventName = keyof SessionEvents;
+
+/**
+ * A listener of a session lifecycle event.
+ */
+export type SessionEventListener<E extends SessionEventName> = (event: SessionEvents[E]) => void;
+
+/**
+ * The names of the session lifecycle events.
+ */
+export const SESSION_EVENTS: SessionEventName[] = [
+	'created',
+	'updated',
+	'touched',
+	'destroyed',
+	'rotated',
+	'expired',
+	'quarantined',
+	'evicted',
+];
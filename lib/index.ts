@@ -1,13 +1,51 @@
 import * as session from 'express-session';
 import { RedisStoreAdapter, RedisStoreAdapterOptions, SessionDataDict } from './adapter';
+import { SessionConflict } from './conflict';
+import { CircuitOpenError, SessionConflictError, SessionLimitError } from './errors';
+import { SESSION_EVENTS } from './events';
+import { SessionEviction, SessionLimitExceeded } from './limit';
+import { MergeFunction, MergeStrategy, resolveMergeStrategy } from './merge';
+import {
+	backoffDelay,
+	CircuitBreaker,
+	CircuitStateChange,
+	DegradedOperation,
+	IDEMPOTENT_OPERATIONS,
+	ResilienceOptions,
+	ResilientOperation,
+	resolveTimeout,
+	withTimeout,
+} from './resilience';
 
 export * from './adapter';
+export * from './cache';
+export * from './compression';
+export * from './conflict';
+export * from './encryption';
+export * from './errors';
+export * from './events';
+export * from './instrumentation';
+export * from './legacy';
+export * from './limit';
+export * from './merge';
+export * from './migrations';
+export * from './resilience';
+export * from './subscriber';
 
 const noop = () => {};
 
+const MAX_SNAPSHOTS = 1000;
+
+const delay = (milliseconds: number) =>
+	new Promise(resolve => {
+		setTimeout(resolve, milliseconds);
+	});
+
 declare module 'express-session' {
 	interface SessionData {
 		lastModified?: Date;
+		createdAt?: Date;
+		schemaVersion?: number;
 	}
 }
 
@@ -16,6 +54,11 @@ declare module 'express-session' {
  */
 export type Callback<TResult = unknown | null, TError = unknown | null> = (error: TError, result: TResult) => void;
 
+/**
+ * A write queued in the `fail-open` degraded mode (see {@link ResilienceOptions.degradedWrites}).
+ */
+type QueuedWrite = { operation: 'set' | 'touch'; sessionData: session.SessionData } | { operation: 'destroy' };
+
 /**
  * Configuration options for {@link RedisStore}.
  */
@@ -24,6 +67,14 @@ export interface RedisStoreOptions extends RedisStoreAdapterOptions {
 	disableTouch?: boolean;
 	/* {@see {@link events.EventEmitter}} */
 	captureRejections?: boolean | undefined;
+	/* Reconciles writes conflicting with a concurrent update (enables {@link RedisStoreAdapterOptions.optimisticLocking}). */
+	merge?: MergeStrategy;
+	/* The maximum number of merge attempts before reporting a conflict. */
+	mergeRetries?: number;
+	/* Guards operations with timeouts, retries and a circuit breaker (`true` uses the defaults). */
+	resilience?: ResilienceOptions | boolean;
+	/* Resolves the tenant of a session id, routing its operations to the scoped adapter of the tenant (see {@link RedisStoreAdapter.tenant}). */
+	getTenantId?: (sessionId: string) => string | null | undefined;
 }
 
 /**
@@ -33,24 +84,55 @@ export class RedisStore extends session.Store {
 	/* A Promise-based adapter providing convenient access to the Redis session store. */
 	readonly access: RedisStoreAdapter;
 	readonly disableTouch: boolean;
+	readonly merge: MergeFunction | null;
+	readonly mergeRetries: number;
+	/* The options of the resilience layer (or `null` if disabled). */
+	readonly resilience: ResilienceOptions | null;
+	/* The circuit breaker of the resilience layer (or `null` if disabled). */
+	readonly breaker: CircuitBreaker | null;
+	/* Resolves the tenant of a session id (or `null` if sessions are not scoped by tenant). */
+	readonly getTenantId: ((sessionId: string) => string | null | undefined) | null;
+	/* Serialized snapshots of the loaded sessions (keyed by session id and `lastModified`) used as merge bases. */
+	protected readonly _snapshots = new Map<string, string>();
+	/* The writes queued in the `fail-open` degraded mode (keyed by session id), replayed once the circuit closes. */
+	protected readonly _queue = new Map<string, QueuedWrite>();
 
 	constructor(options: RedisStoreOptions) {
 		super(options);
 
-		this.access = new RedisStoreAdapter(options);
+		this.access = new RedisStoreAdapter({
+			...options,
+			optimisticLocking: options.optimisticLocking ?? !!options.merge,
+		});
 		this.disableTouch = options.disableTouch ?? false;
+		this.merge = options.merge ? resolveMergeStrategy(options.merge) : null;
+		this.mergeRetries = options.mergeRetries ?? 3;
+		this.resilience = options.resilience ? { ...(options.resilience === true ? {} : options.resilience) } : null;
+		this.breaker = this.resilience
+			? new CircuitBreaker(this.resilience.failureThreshold, this.resilience.resetTimeoutMs)
+			: null;
+		this.getTenantId = options.getTenantId ?? null;
+
+		// Forward the session lifecycle events of the adapter
+		SESSION_EVENTS.forEach(name => this.access.on(name, event => this.emit(name, event)));
+
+		this.breaker?.on('state', (change: CircuitStateChange) => {
+			this.emit('circuit', change);
+			if (change.state === 'closed' && this._queue.size) this._flush().catch(noop);
+		});
 	}
 
 	get(sessionId: string, callback: Callback<session.SessionData | null> = noop) {
-		this.access
-			.get(sessionId)
-			.then(result => callback(null, result))
+		this._guard('get', sessionId, () => this._access(sessionId).get(sessionId), null)
+			.then(result => {
+				if (result && this.merge) this._saveSnapshot(sessionId, result);
+				callback(null, result);
+			})
 			.catch(error => callback(error, null));
 	}
 
 	set(sessionId: string, sessionData: session.SessionData, callback: Callback<session.SessionData | null> = noop) {
-		this.access
-			.set(sessionId, sessionData)
+		this._guard('set', sessionId, () => this._set(sessionId, sessionData), null, { operation: 'set', sessionData })
 			.then(result => callback(null, result))
 			.catch(error => callback(error, null));
 	}
@@ -61,37 +143,230 @@ export class RedisStore extends session.Store {
 			return;
 		}
 
-		this.access
-			.touch(sessionId, sessionData)
+		this._guard('touch', sessionId, () => this._access(sessionId).touch(sessionId, sessionData), null, {
+			operation: 'touch',
+			sessionData,
+		})
 			.then(result => callback(null, result))
 			.catch(error => callback(error, null));
 	}
 
 	destroy(sessionId: string, callback: Callback<boolean> = noop) {
-		this.access
-			.destroy(sessionId)
+		this._guard('destroy', sessionId, () => this._access(sessionId).destroy(sessionId), false, {
+			operation: 'destroy',
+		})
 			.then(result => callback(null, result))
 			.catch(error => callback(error, false));
 	}
 
 	clear(callback: Callback<number> = noop) {
-		this.access
-			.clear()
+		this._run('clear', () => this.access.clear())
 			.then(result => callback(null, result))
 			.catch(error => callback(error, 0));
 	}
 
 	length(callback: Callback<number> = noop) {
-		this.access
-			.length()
+		this._run('length', () => this.access.length())
 			.then(result => callback(null, result))
 			.catch(error => callback(error, 0));
 	}
 
 	all(callback: Callback<SessionDataDict | null> = noop) {
-		this.access
-			.all()
+		this._run('all', () => this.access.all())
 			.then(result => callback(null, result))
 			.catch(error => callback(error, null));
 	}
+
+	/**
+	 * Upsert a session, merging conflicting concurrent updates with {@link RedisStore.merge} (if configured).
+	 *
+	 * @param sessionId
+	 * @param sessionData
+	 *
+	 * @return the session that was set (or `null` if expired).
+	 */
+	protected async _set(sessionId: string, sessionData: session.SessionData) {
+		const base = this.merge ? this._loadSnapshot(sessionId, sessionData.lastModified) : null;
+
+		let local = sessionData;
+		for (let attempt = 0; ; attempt += 1) {
+			// eslint-disable-next-line no-await-in-loop
+			const result = await this._access(sessionId).set(sessionId, local);
+			if (result instanceof SessionLimitExceeded) throw new SessionLimitError(result);
+			if (result instanceof SessionEviction) return result.sessionData;
+			if (!(result instanceof SessionConflict)) return result;
+			if (!this.merge || attempt >= this.mergeRetries) throw new SessionConflictError(result);
+
+			const remote = result.existing;
+			local = {
+				...this.merge({ base, local, remote }),
+				cookie: sessionData.cookie,
+				lastModified: remote.lastModified,
+			};
+		}
+	}
+
+	/**
+	 * Resolve the adapter of a session: the scoped adapter of its tenant (see {@link RedisStore.getTenantId}), or
+	 * {@link RedisStore.access} otherwise.
+	 *
+	 * @param sessionId
+	 */
+	protected _access(sessionId: string) {
+		const tenantId = this.getTenantId?.(sessionId);
+		return tenantId === null || tenantId === undefined ? this.access : this.access.tenant(tenantId);
+	}
+
+	/**
+	 * Run an operation with the timeout, retries and circuit breaker of the resilience layer (if enabled).
+	 *
+	 * @remarks only idempotent operations are retried (see {@link IDEMPOTENT_OPERATIONS}); conflicts and rejections by
+	 * the session limit of a user are not failures.
+	 *
+	 * @param operation
+	 * @param fn - runs the operation.
+	 *
+	 * @return the result of the operation.
+	 */
+	protected async _run<T>(operation: ResilientOperation, fn: () => Promise<T>) {
+		const { resilience, breaker } = this;
+		if (!resilience || !breaker) return fn();
+
+		const attempts = IDEMPOTENT_OPERATIONS.includes(operation) ? (resilience.retries ?? 2) + 1 : 1;
+		const timeoutMs = resolveTimeout(resilience.timeoutMs, operation);
+
+		for (let attempt = 0; ; attempt += 1) {
+			if (!breaker.allow()) throw new CircuitOpenError(operation);
+
+			try {
+				// eslint-disable-next-line no-await-in-loop
+				const result = await withTimeout(fn(), timeoutMs, operation);
+				breaker.success();
+				return result;
+			} catch (error) {
+				if (error instanceof SessionConflictError || error instanceof SessionLimitError) {
+					breaker.success();
+					throw error;
+				}
+
+				breaker.failure();
+				if (attempt + 1 >= attempts) throw error;
+			}
+
+			// eslint-disable-next-line no-await-in-loop
+			await delay(backoffDelay(attempt, resilience.retryDelayMs ?? 50, resilience.maxRetryDelayMs ?? 1000));
+		}
+	}
+
+	/**
+	 * Run a single-session operation, falling back to the `fail-open` degraded mode (if configured) when it fails.
+	 *
+	 * @param operation
+	 * @param sessionId
+	 * @param fn - runs the operation.
+	 * @param fallback - the result of the operation in the degraded mode.
+	 * @param write - the write to queue in the degraded mode (for write operations).
+	 *
+	 * @return the result of the operation (or the fallback in the degraded mode).
+	 */
+	protected async _guard<T>(
+		operation: ResilientOperation,
+		sessionId: string,
+		fn: () => Promise<T>,
+		fallback: T,
+		write?: QueuedWrite,
+	) {
+		try {
+			return await this._run(operation, fn);
+		} catch (error) {
+			if (
+				this.resilience?.degradedMode !== 'fail-open' ||
+				error instanceof SessionConflictError ||
+				error instanceof SessionLimitError
+			) {
+				throw error;
+			}
+
+			const queued = !!write && this._enqueue(sessionId, write);
+			this.emit('degraded', { operation, sessionId, error, queued } as DegradedOperation);
+			return fallback;
+		}
+	}
+
+	/**
+	 * Queue a write in the `fail-open` degraded mode (if {@link ResilienceOptions.degradedWrites} is `queue`).
+	 *
+	 * @param sessionId
+	 * @param write
+	 *
+	 * @return `true` if the write was queued (or superseded by a queued write).
+	 */
+	protected _enqueue(sessionId: string, write: QueuedWrite) {
+		if (this.resilience?.degradedWrites !== 'queue') return false;
+
+		const queued = this._queue.has(sessionId);
+		// A queued `set` or `destroy` already renews or removes the session
+		if (queued && write.operation === 'touch') return true;
+		if (!queued && this._queue.size >= (this.resilience.maxQueuedWrites ?? 1000)) return false;
+
+		this._queue.delete(sessionId);
+		this._queue.set(sessionId, write);
+		return true;
+	}
+
+	/**
+	 * Replay the queued writes (in the order they were queued) once the circuit closes.
+	 *
+	 * @remarks writes failing again are queued again; writes rejected by a conflict are dropped.
+	 */
+	protected async _flush() {
+		const writes = [...this._queue];
+		this._queue.clear();
+
+		// eslint-disable-next-line no-restricted-syntax
+		for (const [sessionId, write] of writes) {
+			const fn = () => {
+				if (write.operation === 'set') return this._set(sessionId, write.sessionData);
+				if (write.operation === 'touch') return this._access(sessionId).touch(sessionId, write.sessionData);
+				return this._access(sessionId).destroy(sessionId);
+			};
+
+			// eslint-disable-next-line no-await-in-loop
+			await this._guard<unknown>(write.operation, sessionId, fn, null, write).catch(noop);
+		}
+	}
+
+	/**
+	 * Save a snapshot of a loaded session for later use as a merge base.
+	 *
+	 * @param sessionId
+	 * @param sessionData
+	 */
+	protected _saveSnapshot(sessionId: string, sessionData: session.SessionData) {
+		if (this._snapshots.size >= MAX_SNAPSHOTS) {
+			this._snapshots.delete(this._snapshots.keys().next().value as string);
+		}
+
+		const key = `${sessionId}:${sessionData.lastModified?.getTime() ?? ''}`;
+		this._snapshots.delete(key);
+		this._snapshots.set(key, this.access.serializer.stringify(sessionData));
+	}
+
+	/**
+	 * Load the snapshot of a loaded session.
+	 *
+	 * @remarks snapshots are retained after use, as concurrent requests may have loaded the same session version.
+	 *
+	 * @param sessionId
+	 * @param lastModified - the `lastModified` date of the loaded session.
+	 *
+	 * @return the loaded session (or `null` if no snapshot was saved).
+	 */
+	protected _loadSnapshot(sessionId: string, lastModified: Date | undefined) {
+		const key = `${sessionId}:${lastModified?.getTime() ?? ''}`;
+		const snapshot = this._snapshots.get(key);
+		if (snapshot === undefined) return null;
+
+		return this.access.serializer.parse(snapshot);
+	}
 }
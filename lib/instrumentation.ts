@@ -0,0 +1,254 @@
+import { createHash } from 'crypto';
+import { performance } from 'perf_hooks';
+
+/**
+ * The name of an instrumented {@link RedisStoreAdapter} operation.
+ */
+export type OperationName =
+	| 'get'
+	| 'set'
+	| 'touch'
+	| 'destroy'
+	| 'rotate'
+	| 'listForUser'
+	| 'destroyAllForUser'
+	| 'clear'
+	| 'length'
+	| 'all'
+	| 'page'
+	| 'inspect'
+	| 'scanCorrupt'
+	| 'reserialize'
+	| 'migrate'
+	| 'import'
+	| 'migrateLegacy';
+
+/**
+ * The outcome of an instrumented operation:
+ * - `hit` / `found` / `missing` / `migrated`: a session was read from the cache, read from Redis, not found or read
+ *   from the legacy store (see {@link RedisStoreAdapterOptions.legacy}).
+ * - `written` / `tombstoned` / `conflict` / `limited`: a session was written, or the write was refused by a tombstone,
+ *   by optimistic locking or by the session limit of the user.
+ * - `expired`: the session was destroyed, as it is expired or past its maximum lifetime.
+ * - `touched` / `destroyed` / `rotated`: a session was touched, destroyed or rotated.
+ * - `ok`: a multi-key operation completed.
+ * - `error`: the operation failed.
+ */
+export type OperationOutcome =
+	| 'hit'
+	| 'found'
+	| 'missing'
+	| 'written'
+	| 'tombstoned'
+	| 'conflict'
+	| 'limited'
+	| 'migrated'
+	| 'expired'
+	| 'touched'
+	| 'destroyed'
+	| 'rotated'
+	| 'ok'
+	| 'error';
+
+/**
+ * The state of an instrumented operation, updated while the operation runs.
+ */
+export interface OperationContext {
+	/* The name of the operation. */
+	readonly operation: OperationName;
+	/* A hash of the session id (for single-session operations), to correlate operations without exposing session ids. */
+	readonly sessionIdHash?: string;
+	/* The start time of the operation (in milliseconds, see {@link performance.now}). */
+	readonly startTime: number;
+	/* The duration of the operation in milliseconds (set when the operation ends). */
+	duration?: number;
+	/* The number of Redis keys processed. */
+	keyCount: number;
+	/* The number of bytes of serialized session values read or written. */
+	payloadBytes: number;
+	/* The outcome of the operation (set when the operation ends). */
+	outcome?: OperationOutcome;
+}
+
+/**
+ * Hooks called when instrumented operations start, end or fail.
+ */
+export interface Instrumentation {
+	start?: (context: OperationContext) => void;
+	end?: (context: OperationContext) => void;
+	error?: (context: OperationContext, error: unknown) => void;
+}
+
+/**
+ * Hash a session id for instrumentation.
+ *
+ * @param sessionId
+ *
+ * @return the first 16 hex digits of the SHA-256 digest of the session id.
+ */
+export const hashSessionId = (sessionId: string) =>
+	createHash('sha256').update(sessionId).digest('hex').substring(0, 16);
+
+/**
+ * Run an operation with instrumentation hooks.
+ *
+ * @param instrumentation - the hooks (or `null` to run the operation as is).
+ * @param operation
+ * @param sessionId - the id of the session (or `null` for multi-key operations).
+ * @param fn - runs the operation, updating the provided context.
+ *
+ * @return the result of the operation.
+ */
+export const instrument = async <T>(
+	instrumentation: Instrumentation | null,
+	operation: OperationName,
+	sessionId: string | null,
+	fn: (context: OperationContext) => Promise<T>,
+) => {
+	const context: OperationContext = {
+		operation,
+		sessionIdHash: instrumentation && sessionId !== null ? hashSessionId(sessionId) : undefined,
+		startTime: performance.now(),
+		keyCount: 0,
+		payloadBytes: 0,
+	};
+	if (!instrumentation) return fn(context);
+
+	instrumentation.start?.(context);
+	let result: T;
+	try {
+		result = await fn(context);
+	} catch (error) {
+		context.duration = performance.now() - context.startTime;
+		context.outcome = 'error';
+		instrumentation.error?.(context, error);
+		throw error;
+	}
+
+	context.duration = performance.now() - context.startTime;
+	context.outcome = context.outcome ?? 'ok';
+	instrumentation.end?.(context);
+	return result;
+};
+
+/**
+ * A span of an OpenTelemetry-style tracer (compatible with `@opentelemetry/api`).
+ */
+export interface TracerSpan {
+	setAttribute: (key: string, value: string | number) => unknown;
+	setStatus: (status: { code: number; message?: string }) => unknown;
+	recordException: (exception: Error) => unknown;
+	end: () => void;
+}
+
+/**
+ * An OpenTelemetry-style tracer (compatible with `@opentelemetry/api`).
+ */
+export interface Tracer {
+	startSpan: (name: string, options?: { attributes?: Record<string, string | number> }) => TracerSpan;
+}
+
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Create instrumentation hooks recording a span for each operation.
+ *
+ * @remarks spans are named `session.<operation>`, with `session.*` attributes for the operation details.
+ *
+ * @param tracer
+ *
+ * @return the instrumentation hooks.
+ */
+export const createTracerInstrumentation = (tracer: Tracer): Instrumentation => {
+	const spans = new WeakMap<OperationContext, TracerSpan>();
+
+	const endSpan = (context: OperationContext) => {
+		const span = spans.get(context);
+		if (!span) return null;
+
+		spans.delete(context);
+		span.setAttribute('session.key_count', context.keyCount);
+		span.setAttribute('session.payload_bytes', context.payloadBytes);
+		span.setAttribute('session.outcome', context.outcome ?? 'ok');
+		return span;
+	};
+
+	return {
+		start(context) {
+			const attributes: Record<string, string> = { 'session.operation': context.operation };
+			if (context.sessionIdHash) attributes['session.id_hash'] = context.sessionIdHash;
+
+			spans.set(context, tracer.startSpan(`session.${context.operation}`, { attributes }));
+		},
+		end(context) {
+			const span = endSpan(context);
+			span?.setStatus({ code: SPAN_STATUS_OK });
+			span?.end();
+		},
+		error(context, error) {
+			const span = endSpan(context);
+			if (!span) return;
+
+			if (error instanceof Error) span.recordException(error);
+			span.setStatus({
+				code: SPAN_STATUS_ERROR,
+				message: error instanceof Error ? error.message : String(error),
+			});
+			span.end();
+		},
+	};
+};
+
+/**
+ * A Prometheus-style counter (compatible with `prom-client`).
+ */
+export interface MetricsCounter {
+	inc: (labels: Record<string, string>, value?: number) => void;
+}
+
+/**
+ * A Prometheus-style histogram (compatible with `prom-client`).
+ */
+export interface MetricsHistogram {
+	observe: (labels: Record<string, string>, value: number) => void;
+}
+
+/**
+ * The metrics recorded by {@link createMetricsInstrumentation} (all labelled by {@link METRICS_LABEL_NAMES}).
+ */
+export interface SessionMetrics {
+	/* The duration of operations in seconds (e.g. `session_operation_duration_seconds`). */
+	duration?: MetricsHistogram;
+	/* The number of operations (e.g. `session_operations_total`). */
+	operations?: MetricsCounter;
+	/* The number of Redis keys processed (e.g. `session_keys_total`). */
+	keys?: MetricsCounter;
+	/* The number of bytes of serialized session values read or written (e.g. `session_payload_bytes_total`). */
+	payloadBytes?: MetricsCounter;
+}
+
+/**
+ * The label names of the metrics recorded by {@link createMetricsInstrumentation}.
+ */
+export const METRICS_LABEL_NAMES = ['operation', 'outcome'];
+
+/**
+ * Create instrumentation hooks recording metrics for each operation.
+ *
+ * @param metrics
+ *
+ * @return the instrumentation hooks.
+ */
+export const createMetricsInstrumentation = (metrics: SessionMetrics): Instrumentation => {
+	const record = (context: OperationContext) => {
+		const labels = { operation: context.operation, outcome: context.outcome ?? 'ok' };
+
+		metrics.duration?.observe(labels, (context.duration ?? 0) / 1000);
+		metrics.operations?.inc(labels);
+		if (context.keyCount) metrics.keys?.inc(labels, context.keyCount);
+		if (context.payloadBytes) metrics.payloadBytes?.inc(labels, context.payloadBytes);
+	};
+
+	return { end: record, error: record };
+};
@@ -0,0 +1,119 @@
+import * as session from 'express-session';
+import type { createClient } from 'redis';
+import { isCluster } from './cluster';
+import { Serializer } from './serializer';
+
+type Client = ReturnType<typeof createClient>;
+
+type LegacySessionData = Omit<session.SessionData, 'cookie'> & {
+	cookie: Omit<session.Cookie, 'expires'> & { expires?: string | null };
+};
+
+/**
+ * A serializer compatible with `connect-redis`, which stores sessions with `JSON.stringify` (i.e. dates as ISO
+ * strings).
+ */
+export const legacySerializer: Serializer = {
+	parse(text) {
+		const { cookie, ...rest } = JSON.parse(text) as LegacySessionData;
+		return {
+			cookie: {
+				...cookie,
+				expires: cookie.expires ? new Date(cookie.expires) : undefined,
+			},
+			...rest,
+		} as session.SessionData;
+	},
+	stringify(value) {
+		return JSON.stringify(value);
+	},
+};
+
+/**
+ * Configuration options for {@link LegacyStore}.
+ */
+export interface LegacyStoreOptions {
+	/* The key prefix of the legacy store (defaults to `sess:`, the prefix of `connect-redis`). */
+	prefix?: string;
+	/* The serializer of the legacy store (defaults to {@link legacySerializer}). */
+	serializer?: Serializer;
+	/* Deletes the key of a legacy session once it is migrated (keys of destroyed sessions are deleted regardless). */
+	deleteMigrated?: boolean;
+}
+
+/**
+ * The result of {@link RedisStoreAdapter.migrateLegacy}.
+ */
+export interface LegacyMigrationResult {
+	/* The number of legacy sessions written to the store. */
+	migrated: number;
+	/* The number of legacy sessions skipped, as they exist in the store, expired or cannot be decoded. */
+	skipped: number;
+}
+
+/**
+ * The sessions of a legacy `connect-redis` store, read (and migrated) when they are missing from the store.
+ */
+export class LegacyStore {
+	readonly client: Client;
+	readonly prefix: string;
+	readonly serializer: Serializer;
+	readonly deleteMigrated: boolean;
+
+	constructor(client: Client, options: LegacyStoreOptions = {}) {
+		this.client = client;
+		this.prefix = options.prefix ?? 'sess:';
+		this.serializer = options.serializer ?? legacySerializer;
+		this.deleteMigrated = options.deleteMigrated ?? false;
+	}
+
+	/**
+	 * Get the legacy key corresponding to a session id.
+	 *
+	 * @param sessionId
+	 *
+	 * @return the prefixed Redis key.
+	 */
+	key(sessionId: string) {
+		return `${this.prefix}${sessionId}`;
+	}
+
+	/**
+	 * Read legacy sessions.
+	 *
+	 * @param keys
+	 *
+	 * @return the sessions (or `null` for missing sessions and values that cannot be decoded) in the order of the keys.
+	 */
+	async read(keys: string[]) {
+		const values = isCluster(this.client)
+			? await Promise.all(keys.map(key => this.client.get(key)))
+			: await this.client.mGet(keys);
+
+		return values.map(value => {
+			if (value === null) return null;
+
+			try {
+				return this.serializer.parse(value);
+			} catch {
+				return null;
+			}
+		});
+	}
+
+	/**
+	 * Delete legacy sessions.
+	 *
+	 * @param keys
+	 */
+	async remove(keys: string[]) {
+		if (!keys.length) return;
+
+		// A cluster rejects multi-key commands spanning several hash slots
+		if (isCluster(this.client)) {
+			await Promise.all(keys.map(key => this.client.del(key)));
+		} else {
+			await this.client.del(keys);
+		}
+	}
+}
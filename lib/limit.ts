@@ -0,0 +1,47 @@
+/* eslint-disable max-classes-per-file */
+import * as session from 'express-session';
+
+/**
+ * The handling of a new session exceeding {@link RedisStoreAdapterOptions.maxSessionsPerUser}:
+ * - `evict-oldest`: the least-recently-modified sessions of the user are replaced by tombstones.
+ * - `reject`: the new session is not written.
+ */
+export type SessionLimitPolicy = 'evict-oldest' | 'reject';
+
+/**
+ * The result of a write rejected by the `reject` policy (see {@link RedisStoreAdapterOptions.maxSessionsPerUser}).
+ */
+export class SessionLimitExceeded {
+	/* The id of the session that could not be written. */
+	readonly sessionId: string;
+	/* The id of the user owning the session. */
+	readonly userId: string;
+	/* The maximum number of sessions of the user. */
+	readonly limit: number;
+
+	constructor(sessionId: string, userId: string, limit: number) {
+		this.sessionId = sessionId;
+		this.userId = userId;
+		this.limit = limit;
+	}
+}
+
+/**
+ * The result of a write evicting other sessions of the user with the `evict-oldest` policy (see
+ * {@link RedisStoreAdapterOptions.maxSessionsPerUser}).
+ */
+export class SessionEviction {
+	/* The id of the session that was written. */
+	readonly sessionId: string;
+	/* The session that was written. */
+	readonly sessionData: session.SessionData;
+	/* The ids of the evicted sessions (from the least recently modified). */
+	readonly evicted: string[];
+
+	constructor(sessionId: string, sessionData: session.SessionData, evicted: string[]) {
+		this.sessionId = sessionId;
+		this.sessionData = sessionData;
+		this.evicted = evicted;
+	}
+}
+/* eslint-enable max-classes-per-file */
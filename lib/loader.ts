@@ -0,0 +1,93 @@
+interface Pending<V> {
+	resolve: (value: V) => void;
+	reject: (error: unknown) => void;
+}
+
+interface Entry<K, V> {
+	key: K;
+	pending: Pending<V>[];
+}
+
+/**
+ * Configuration options for {@link BatchLoader}.
+ */
+export interface BatchLoaderOptions {
+	/* The maximum number of distinct keys loaded by a batch (further keys are loaded by another batch). */
+	maxBatchSize?: number;
+}
+
+/**
+ * A loader coalescing the loads made during an iteration of the event loop into batches (after the `DataLoader`
+ * pattern); loads of the same key within a batch share a single lookup.
+ *
+ * @remarks batches are dispatched with `setImmediate`, so that loads made by the I/O callbacks of the same iteration
+ * (e.g. concurrent requests) are coalesced.
+ */
+export class BatchLoader<K, V> {
+	readonly maxBatchSize: number;
+	/* Loads a batch of keys; the values (in the order of the keys) that are errors reject the corresponding loads. */
+	protected readonly _loadBatch: (keys: K[]) => Promise<(V | Error)[]>;
+	/* Identifies the keys loaded by a single lookup. */
+	protected readonly _keyOf: (key: K) => string;
+	/* The batch collecting loads (or `null` until the next load). */
+	protected _batch: Map<string, Entry<K, V>> | null = null;
+
+	constructor(
+		loadBatch: (keys: K[]) => Promise<(V | Error)[]>,
+		options: BatchLoaderOptions & { keyOf?: (key: K) => string } = {},
+	) {
+		this._loadBatch = loadBatch;
+		this._keyOf = options.keyOf ?? String;
+		this.maxBatchSize = options.maxBatchSize ?? 100;
+	}
+
+	/**
+	 * Load a key with the next batch.
+	 *
+	 * @param key
+	 *
+	 * @return the loaded value.
+	 */
+	load(key: K) {
+		return new Promise<V>((resolve, reject) => {
+			let batch = this._batch;
+			if (!batch) {
+				const created = new Map<string, Entry<K, V>>();
+				setImmediate(() => this._dispatch(created));
+				batch = created;
+				this._batch = batch;
+			}
+
+			const id = this._keyOf(key);
+			const entry = batch.get(id);
+			if (entry) {
+				entry.pending.push({ resolve, reject });
+			} else {
+				batch.set(id, { key, pending: [{ resolve, reject }] });
+			}
+
+			// Further loads are collected by another batch
+			if (batch.size >= this.maxBatchSize) this._batch = null;
+		});
+	}
+
+	/**
+	 * Load a batch and settle its loads.
+	 *
+	 * @param batch
+	 */
+	protected _dispatch(batch: Map<string, Entry<K, V>>) {
+		if (this._batch === batch) this._batch = null;
+
+		const entries = [...batch.values()];
+		const settle = (i: number, value: V | Error) =>
+			entries[i].pending.forEach(({ resolve, reject }) =>
+				value instanceof Error ? reject(value) : resolve(value),
+			);
+
+		this._loadBatch(entries.map(({ key }) => key)).then(
+			values => entries.forEach((_, i) => settle(i, values[i])),
+			error => entries.forEach(({ pending }) => pending.forEach(({ reject }) => reject(error))),
+		);
+	}
+}
@@ -0,0 +1,97 @@
+interface Entry<T> {
+	value: T;
+	size: number;
+	expires: number;
+}
+
+/**
+ * A least-recently-used cache bounded by a number of entries and a total size.
+ */
+export class LruCache<T> {
+	readonly maxEntries: number;
+	readonly maxSize: number;
+	protected readonly _entries = new Map<string, Entry<T>>();
+	protected _size = 0;
+
+	constructor(maxEntries: number, maxSize: number) {
+		this.maxEntries = maxEntries;
+		this.maxSize = maxSize;
+	}
+
+	/* The number of entries. */
+	get length() {
+		return this._entries.size;
+	}
+
+	/* The total size of the entries. */
+	get size() {
+		return this._size;
+	}
+
+	/**
+	 * Get an entry and mark it as the most recently used.
+	 *
+	 * @param key
+	 *
+	 * @return the value (or `undefined` if missing or expired).
+	 */
+	get(key: string) {
+		const entry = this._entries.get(key);
+		if (!entry) return undefined;
+
+		this._entries.delete(key);
+		if (entry.expires <= Date.now()) {
+			this._size -= entry.size;
+			return undefined;
+		}
+
+		this._entries.set(key, entry);
+		return entry.value;
+	}
+
+	/**
+	 * Set an entry, evicting the least recently used entries to stay within budget.
+	 *
+	 * @remarks entries larger than {@link LruCache.maxSize} are not cached.
+	 *
+	 * @param key
+	 * @param value
+	 * @param size
+	 * @param ttlMilliseconds - the duration after which the entry expires.
+	 */
+	set(key: string, value: T, size: number, ttlMilliseconds = Infinity) {
+		this.delete(key);
+		if (size > this.maxSize || this.maxEntries <= 0 || ttlMilliseconds <= 0) return;
+
+		while (this._entries.size >= this.maxEntries || this._size + size > this.maxSize) {
+			this.delete(this._entries.keys().next().value as string);
+		}
+
+		this._entries.set(key, { value, size, expires: Date.now() + ttlMilliseconds });
+		this._size += size;
+	}
+
+	/**
+	 * Delete an entry.
+	 *
+	 * @param key
+	 *
+	 * @return `true` if the entry existed.
+	 */
+	delete(key: string) {
+		const entry = this._entries.get(key);
+		if (!entry) return false;
+
+		this._entries.delete(key);
+		this._size -= entry.size;
+		return true;
+	}
+
+	/**
+	 * Delete all entries.
+	 */
+	clear() {
+		this._entries.clear();
+		this._size = 0;
+	}
+}
@@ -0,0 +1,123 @@
+import * as session from 'express-session';
+import { deepEqual } from './compare';
+
+interface Indexable {
+	[key: string]: unknown;
+}
+
+/**
+ * The session versions reconciled when a write conflicts with a concurrent update.
+ */
+export interface MergeContext {
+	/* The session snapshot originally loaded by the request (or `null` if unavailable). */
+	base: session.SessionData | null;
+	/* The session data written by the request. */
+	local: session.SessionData;
+	/* The session data stored during a concurrent request. */
+	remote: session.SessionData;
+}
+
+/**
+ * A function reconciling conflicting session versions (`cookie` and `lastModified` are always overridden by the store).
+ */
+export type MergeFunction = (context: MergeContext) => session.SessionData;
+
+/**
+ * A built-in merge strategy name or a custom merge function.
+ */
+export type MergeStrategy = 'last-writer-wins' | 'shallow-merge-changed-keys' | 'three-way' | MergeFunction;
+
+const ABSENT = Symbol('absent');
+
+const isPlainObject = (value: unknown): value is Indexable =>
+	!!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+const dataKeys = (...values: Indexable[]) => {
+	const keys = new Set<string>();
+	values.forEach(value => Object.keys(value).forEach(key => keys.add(key)));
+	keys.delete('cookie');
+	keys.delete('lastModified');
+	return [...keys];
+};
+
+const valueOf = (value: Indexable, key: string) => (key in value ? value[key] : ABSENT);
+
+const mergeValues = (base: unknown, local: unknown, remote: unknown): unknown => {
+	if (deepEqual(local, base)) return remote;
+	if (deepEqual(remote, base) || deepEqual(local, remote)) return local;
+
+	if (isPlainObject(base) && isPlainObject(local) && isPlainObject(remote)) {
+		return dataKeys(base, local, remote).reduce((acc, key) => {
+			const value = mergeValues(valueOf(base, key), valueOf(local, key), valueOf(remote, key));
+			if (value !== ABSENT) acc[key] = value;
+			return acc;
+		}, {} as Indexable);
+	}
+
+	// Both versions changed the value; the request being written takes precedence
+	return local;
+};
+
+/**
+ * Keep the session data written by the request, discarding the concurrent update.
+ */
+export const lastWriterWins: MergeFunction = ({ local }) => local;
+
+/**
+ * Apply the top-level keys changed by the request (relative to the loaded snapshot) onto the stored session.
+ *
+ * @remarks falls back to {@link lastWriterWins} if the loaded snapshot is unavailable.
+ */
+export const shallowMergeChangedKeys: MergeFunction = context => {
+	const { base, remote } = context;
+	const local = context.local as unknown as Indexable;
+	if (!base) return context.local;
+
+	const _base = base as unknown as Indexable;
+	return dataKeys(_base, local).reduce(
+		(acc, key) => {
+			if (deepEqual(local[key], _base[key])) return acc;
+
+			if (key in local) {
+				acc[key] = local[key];
+			} else {
+				delete acc[key];
+			}
+			return acc;
+		},
+		{ ...remote } as unknown as Indexable,
+	) as unknown as session.SessionData;
+};
+
+/**
+ * Recursively merge the changes of both versions relative to the loaded snapshot; values changed by both versions are
+ * resolved in favor of the request.
+ *
+ * @remarks falls back to {@link lastWriterWins} if the loaded snapshot is unavailable.
+ */
+export const threeWayMerge: MergeFunction = ({ base, local, remote }) => {
+	if (!base) return local;
+	return mergeValues(base, local, remote) as session.SessionData;
+};
+
+/**
+ * Resolve a merge strategy to its merge function.
+ *
+ * @param strategy
+ *
+ * @return the merge function.
+ */
+export const resolveMergeStrategy = (strategy: MergeStrategy): MergeFunction => {
+	if (typeof strategy === 'function') return strategy;
+
+	switch (strategy) {
+		case 'last-writer-wins':
+			return lastWriterWins;
+		case 'shallow-merge-changed-keys':
+			return shallowMergeChangedKeys;
+		case 'three-way':
+			return threeWayMerge;
+		default:
+			throw new Error(`Unknown merge strategy \`${String(strategy)}\``);
+	}
+};
@@ -0,0 +1,25 @@
+import * as session from 'express-session';
+
+/**
+ * A function upgrading session data from one schema version to the next.
+ */
+export type SessionMigration = (sessionData: session.SessionData) => session.SessionData;
+
+/**
+ * Upgrade session data to the latest schema version by applying the migrations following its `schemaVersion`.
+ *
+ * @remarks sessions without a `schemaVersion` (e.g. stored before migrations were configured) are at version `0`, and
+ * sessions stored with a version newer than the latest known version are returned as is.
+ *
+ * @param sessionData
+ * @param migrations - the ordered list of migrations; the migration at index `i` upgrades version `i` to `i + 1`.
+ *
+ * @return the upgraded session object (or the provided session object if it is up-to-date).
+ */
+export const migrateSession = (sessionData: session.SessionData, migrations: SessionMigration[]) => {
+	const version = sessionData.schemaVersion ?? 0;
+	if (version >= migrations.length) return sessionData;
+
+	const migrated = migrations.slice(version).reduce((acc, migration) => migration(acc), sessionData);
+	return { ...migrated, schemaVersion: migrations.length };
+};
@@ -0,0 +1,38 @@
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Split a source of text chunks (e.g. a file stream) into lines, decoding multi-byte characters split across chunks.
+ *
+ * @param source - an async iterable of strings or UTF-8 buffers.
+ *
+ * @return an async iterator of lines (without line terminators, including a last unterminated line).
+ */
+export async function* readLines(source: AsyncIterable<string | Buffer>): AsyncGenerator<string, void, undefined> {
+	const decoder = new StringDecoder('utf8');
+	let buffered = '';
+
+	// eslint-disable-next-line no-restricted-syntax
+	for await (const chunk of source) {
+		buffered += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+		const lines = buffered.split('\n');
+		buffered = lines.pop() as string;
+		yield* lines.map(line => line.replace(/\r$/, ''));
+	}
+
+	buffered += decoder.end();
+	if (buffered) yield buffered.replace(/\r$/, '');
+}
+
+/**
+ * Encode values as NDJSON lines.
+ *
+ * @param values
+ *
+ * @return an async iterator of JSON-encoded lines (terminated by a line feed).
+ */
+export async function* toLines(values: AsyncIterable<unknown>): AsyncGenerator<string, void, undefined> {
+	// eslint-disable-next-line no-restricted-syntax
+	for await (const value of values) {
+		yield `${JSON.stringify(value)}\n`;
+	}
+}
@@ -0,0 +1,215 @@
+import { EventEmitter } from 'events';
+import { StoreTimeoutError } from './errors';
+
+/**
+ * An operation of {@link RedisStore} guarded by the resilience layer.
+ */
+export type ResilientOperation = 'get' | 'set' | 'touch' | 'destroy' | 'length' | 'all' | 'clear';
+
+/**
+ * The state of a {@link CircuitBreaker}:
+ * - `closed`: operations are attempted.
+ * - `open`: operations are rejected without being attempted.
+ * - `half-open`: a single probe operation is attempted to decide whether to close the circuit.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * The handling of single-session operations failing (or rejected by an open circuit):
+ * - `fail-closed`: the error is passed to express-session.
+ * - `fail-open`: reads are treated as "no session" and writes are queued or dropped (see
+ *   {@link ResilienceOptions.degradedWrites}).
+ */
+export type DegradedMode = 'fail-closed' | 'fail-open';
+
+/**
+ * The handling of writes (`set`, `touch` and `destroy`) in the `fail-open` degraded mode:
+ * - `queue`: the latest write of each session is replayed once the circuit closes.
+ * - `drop`: writes are discarded.
+ */
+export type DegradedWrites = 'queue' | 'drop';
+
+/**
+ * Configuration options for the resilience layer of {@link RedisStore}.
+ */
+export interface ResilienceOptions {
+	/* The timeout of operations in milliseconds, or timeouts by operation (`0` disables a timeout). */
+	timeoutMs?: number | Partial<Record<ResilientOperation, number>>;
+	/* The number of retries of failed idempotent operations (`get`, `touch` and `length`). */
+	retries?: number;
+	/* The base delay in milliseconds of the exponential backoff between retries. */
+	retryDelayMs?: number;
+	/* The maximum delay in milliseconds between retries. */
+	maxRetryDelayMs?: number;
+	/* The number of consecutive failures opening the circuit. */
+	failureThreshold?: number;
+	/* The duration in milliseconds after which an open circuit lets a probe operation through. */
+	resetTimeoutMs?: number;
+	/* The handling of failing single-session operations. */
+	degradedMode?: DegradedMode;
+	/* The handling of writes in the `fail-open` degraded mode. */
+	degradedWrites?: DegradedWrites;
+	/* The maximum number of queued writes (further writes are dropped). */
+	maxQueuedWrites?: number;
+}
+
+/**
+ * The payload of the `circuit` event of {@link RedisStore} (and the `state` event of {@link CircuitBreaker}).
+ */
+export interface CircuitStateChange {
+	state: CircuitState;
+	previous: CircuitState;
+}
+
+/**
+ * The payload of the `degraded` event of {@link RedisStore}, emitted when a failing operation is handled by the
+ * `fail-open` degraded mode.
+ */
+export interface DegradedOperation {
+	operation: ResilientOperation;
+	sessionId: string;
+	error: unknown;
+	/* Whether the write was queued (or dropped). */
+	queued?: boolean;
+}
+
+/**
+ * The operations retried on failure, as retrying them has no side effect.
+ */
+export const IDEMPOTENT_OPERATIONS: ResilientOperation[] = ['get', 'touch', 'length'];
+
+/**
+ * Resolve the timeout of an operation.
+ *
+ * @remarks a single timeout only applies to the single-session operations and `length`, as the duration of `all`
+ * and `clear` grows with the number of sessions.
+ *
+ * @param timeoutMs - see {@link ResilienceOptions.timeoutMs}
+ * @param operation
+ *
+ * @return the timeout in milliseconds (or `0` if disabled).
+ */
+export const resolveTimeout = (timeoutMs: ResilienceOptions['timeoutMs'], operation: ResilientOperation) => {
+	if (typeof timeoutMs === 'object') return timeoutMs[operation] ?? 0;
+	return operation === 'all' || operation === 'clear' ? 0 : timeoutMs ?? 2000;
+};
+
+/**
+ * Reject a promise if it does not settle in time.
+ *
+ * @remarks the underlying command is not cancelled.
+ *
+ * @param promise
+ * @param timeoutMs - the timeout in milliseconds (`0` disables the timeout).
+ * @param operation - the name of the operation, used in the error message.
+ *
+ * @return the result of the promise.
+ */
+export const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, operation: string) => {
+	if (timeoutMs <= 0) return promise;
+
+	return new Promise<T>((resolve, reject) => {
+		const timer = setTimeout(() => reject(new StoreTimeoutError(operation, timeoutMs)), timeoutMs);
+		promise.then(
+			result => {
+				clearTimeout(timer);
+				resolve(result);
+			},
+			error => {
+				clearTimeout(timer);
+				reject(error);
+			},
+		);
+	});
+};
+
+/**
+ * Compute the delay before a retry with an exponential backoff and full jitter.
+ *
+ * @param attempt - the number of the failed attempt (starting from `0`).
+ * @param baseDelayMs
+ * @param maxDelayMs
+ *
+ * @return a random delay in milliseconds between `0` and `min(maxDelayMs, baseDelayMs * 2 ** attempt)`.
+ */
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) =>
+	Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+/**
+ * A circuit breaker rejecting operations after consecutive failures, until a probe operation succeeds.
+ *
+ * @remarks emits a `state` event with a {@link CircuitStateChange} payload when the state changes.
+ */
+export class CircuitBreaker extends EventEmitter {
+	readonly failureThreshold: number;
+	readonly resetTimeoutMs: number;
+	protected _state: CircuitState = 'closed';
+	protected _failures = 0;
+	protected _openedAt = 0;
+	/* Indicates whether the probe operation of the `half-open` state is in flight. */
+	protected _probing = false;
+
+	constructor(failureThreshold = 5, resetTimeoutMs = 10000) {
+		super();
+		this.failureThreshold = failureThreshold;
+		this.resetTimeoutMs = resetTimeoutMs;
+	}
+
+	/* The current state of the circuit. */
+	get state() {
+		return this._state;
+	}
+
+	/**
+	 * Check whether an operation may be attempted; an open circuit turns `half-open` once the reset timeout elapsed.
+	 *
+	 * @return `true` if the operation may be attempted (the outcome must then be reported with
+	 * {@link CircuitBreaker.success} or {@link CircuitBreaker.failure}).
+	 */
+	allow() {
+		if (this._state === 'open' && Date.now() - this._openedAt >= this.resetTimeoutMs) {
+			this._transition('half-open');
+		}
+
+		if (this._state === 'closed') return true;
+		if (this._state === 'open' || this._probing) return false;
+
+		this._probing = true;
+		return true;
+	}
+
+	/**
+	 * Report a successful operation, closing the circuit.
+	 */
+	success() {
+		this._failures = 0;
+		this._probing = false;
+		this._transition('closed');
+	}
+
+	/**
+	 * Report a failed operation, opening the circuit if the probe failed or the failure threshold is reached.
+	 */
+	failure() {
+		this._failures += 1;
+		this._probing = false;
+
+		if (this._state === 'half-open' || this._failures >= this.failureThreshold) {
+			this._openedAt = Date.now();
+			this._transition('open');
+		}
+	}
+
+	/**
+	 * Change the state of the circuit.
+	 *
+	 * @param state
+	 */
+	protected _transition(state: CircuitState) {
+		const previous = this._state;
+		if (state === previous) return;
+
+		this._state = state;
+		this.emit('state', { state, previous } as CircuitStateChange);
+	}
+}
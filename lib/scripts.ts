@@ -0,0 +1,177 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { createClient } from 'redis';
+import { nodeClients } from './cluster';
+
+type Client = ReturnType<typeof createClient>;
+
+/**
+ * The names of the Lua scripts (matching their file names in the `lua` directory).
+ */
+export type ScriptName =
+	| 'set'
+	| 'set-hash'
+	| 'touch'
+	| 'destroy'
+	| 'index'
+	| 'rewrite'
+	| 'rotate'
+	| 'copy'
+	| 'quarantine';
+
+/**
+ * The keys and arguments of a script call.
+ */
+export interface ScriptCallOptions {
+	keys: string[];
+	arguments: string[];
+}
+
+/**
+ * Configuration options for {@link ScriptManager}.
+ */
+export interface ScriptManagerOptions {
+	/* Register the scripts as a Redis 7 function library (falls back to cached scripts if unsupported). */
+	useFunctions?: boolean;
+}
+
+interface Script {
+	source: string;
+	sha: string;
+}
+
+const sha1 = (text: string) => createHash('sha1').update(text).digest('hex');
+
+const loadLuaScript = (fileName: string) => {
+	const filePath = path.resolve(__dirname, `../lua/${fileName}.lua`);
+	const file = fs.readFileSync(filePath, 'utf8');
+	return file.trim();
+};
+
+const hasErrorPrefix = (error: unknown, prefix: string) => error instanceof Error && error.message.startsWith(prefix);
+
+/**
+ * A registry of the Lua scripts used by the store; scripts are called by their SHA1 digest (`EVALSHA`) or as functions
+ * of a Redis function library (`FCALL`) instead of sending their full source with every call.
+ */
+export class ScriptManager {
+	readonly client: Client;
+	readonly useFunctions: boolean;
+	/* The name of the function library (versioned by the digest of the scripts). */
+	readonly library: string;
+	protected readonly _scripts: Record<ScriptName, Script>;
+	protected _functions: Promise<boolean> | null = null;
+
+	constructor(client: Client, names: ScriptName[], options: ScriptManagerOptions = {}) {
+		this.client = client;
+		this.useFunctions = options.useFunctions ?? false;
+
+		this._scripts = names.reduce((acc, name) => {
+			const source = loadLuaScript(name);
+			acc[name] = { source, sha: sha1(source) };
+			return acc;
+		}, {} as Record<ScriptName, Script>);
+
+		const digest = sha1(names.map(name => this._scripts[name].sha).join(':')).substring(0, 12);
+		this.library = `connect_redis_session_${digest}`;
+	}
+
+	/**
+	 * Get the name of the function registered for a script in the function library.
+	 *
+	 * @param name
+	 *
+	 * @return the function name.
+	 */
+	functionName(name: ScriptName) {
+		return `${this.library}_${name.replace(/-/g, '_')}`;
+	}
+
+	/**
+	 * Generate the source of the function library registering each script as a function.
+	 *
+	 * @return the library source for `FUNCTION LOAD`.
+	 */
+	librarySource() {
+		const functions = (Object.keys(this._scripts) as ScriptName[]).map(name => {
+			return [
+				`redis.register_function('${this.functionName(name)}', function(KEYS, ARGV)`,
+				this._scripts[name].source,
+				'end)',
+			].join('\n');
+		});
+
+		return [`#!lua name=${this.library}`, ...functions].join('\n');
+	}
+
+	/**
+	 * Load the scripts into the Redis script cache (or register the function library) of every master node.
+	 *
+	 * @remarks calling this method is optional; scripts are also loaded on demand.
+	 */
+	async load() {
+		if (await this._loadFunctions()) return;
+
+		await Promise.all(
+			nodeClients(this.client).map(client =>
+				Promise.all(Object.values<Script>(this._scripts).map(script => client.scriptLoad(script.source))),
+			),
+		);
+	}
+
+	/**
+	 * Run a script.
+	 *
+	 * @remarks scripts missing from the Redis script cache (e.g. after a restart or `SCRIPT FLUSH`) are reloaded.
+	 *
+	 * @param name
+	 * @param options
+	 *
+	 * @return the script reply.
+	 */
+	async run(name: ScriptName, options: ScriptCallOptions) {
+		if (await this._loadFunctions()) {
+			try {
+				return await this.client.fCall(this.functionName(name), options);
+			} catch (error) {
+				if (!hasErrorPrefix(error, 'ERR Function not found')) throw error;
+
+				this._functions = null;
+				await this._loadFunctions();
+				return this.client.fCall(this.functionName(name), options);
+			}
+		}
+
+		const script = this._scripts[name];
+		try {
+			return await this.client.evalSha(script.sha, options);
+		} catch (error) {
+			if (!hasErrorPrefix(error, 'NOSCRIPT')) throw error;
+
+			// `EVAL` also caches the script on the node serving the call
+			return this.client.eval(script.source, options);
+		}
+	}
+
+	/**
+	 * Register the function library on every master node (only if {@link ScriptManager.useFunctions} is enabled).
+	 *
+	 * @return `true` if the function library is registered (or `false` if functions are disabled or unsupported).
+	 */
+	protected _loadFunctions() {
+		if (!this.useFunctions) return Promise.resolve(false);
+
+		if (!this._functions) {
+			const source = this.librarySource();
+			this._functions = Promise.all(
+				nodeClients(this.client).map(client => client.functionLoad(source, { REPLACE: true })),
+			).then(
+				() => true,
+				() => false,
+			);
+		}
+
+		return this._functions;
+	}
+}
@@ -8,40 +8,69 @@ export interface Serializer {
 	parse: (text: string) => session.SessionData;
 	/* Encode a session into a string (e.g. {@link JSON.stringify}). */
 	stringify: (value: session.SessionData) => string;
+	/* Decode a session from a record of string-encoded top-level fields (required by the `hash` storage mode). */
+	parseFields?: (fields: Record<string, string>) => session.SessionData;
+	/* Encode the top-level fields of a session into a record of strings (required by the `hash` storage mode). */
+	stringifyFields?: (value: session.SessionData) => Record<string, string>;
+	/* Indicates that encoded strings may not be JSON (e.g. encrypted or compressed values). */
+	opaque?: boolean;
 }
 
+type EncodedSessionData = Omit<session.SessionData, 'cookie' | 'lastModified' | 'createdAt'> & {
+	cookie: Omit<session.Cookie, 'expires'> & { expires?: number };
+	lastModified?: number;
+	createdAt?: number;
+};
+
+const encode = (value: session.SessionData): EncodedSessionData => {
+	const { cookie, lastModified, createdAt, ...rest } = value;
+	return {
+		cookie: {
+			...cookie,
+			expires: cookie.expires?.getTime(),
+		},
+		lastModified: lastModified?.getTime(),
+		...(createdAt && { createdAt: createdAt.getTime() }),
+		...rest,
+	};
+};
+
+const decode = (value: EncodedSessionData): session.SessionData => {
+	const { cookie, lastModified, createdAt, ...rest } = value;
+	return {
+		cookie: {
+			...cookie,
+			expires: cookie.expires === undefined ? undefined : new Date(cookie.expires),
+		},
+		lastModified: lastModified === undefined ? undefined : new Date(lastModified),
+		...(createdAt !== undefined && { createdAt: new Date(createdAt) }),
+		...rest,
+	};
+};
+
 /**
  * Custom serializer for converting session data to/from strings.
  */
 const serializer: Serializer = {
 	parse(text) {
-		const value = JSON.parse(text) as Omit<session.SessionData, 'lastModified'> & {
-			cookie: Omit<session.Cookie, 'expires'> & { expires?: number };
-			lastModified?: number;
-		};
-		const { cookie, lastModified, ...rest } = value;
-
-		return {
-			cookie: {
-				...cookie,
-				expires: cookie.expires === undefined ? undefined : new Date(cookie.expires),
-			},
-			lastModified: lastModified === undefined ? undefined : new Date(lastModified),
-			...rest,
-		};
+		return decode(JSON.parse(text) as EncodedSessionData);
 	},
 	stringify(value) {
-		const { cookie, lastModified, ...rest } = value;
-		const data = {
-			cookie: {
-				...cookie,
-				expires: cookie.expires?.getTime(),
-			},
-			lastModified: lastModified?.getTime(),
-			...rest,
-		};
+		return JSON.stringify(encode(value));
+	},
+	parseFields(fields) {
+		const value = Object.entries(fields).reduce((acc, [field, text]) => {
+			acc[field] = JSON.parse(text) as unknown;
+			return acc;
+		}, {} as Record<string, unknown>);
 
-		return JSON.stringify(data);
+		return decode(value as EncodedSessionData);
+	},
+	stringifyFields(value) {
+		return Object.entries(encode(value)).reduce((acc, [field, data]) => {
+			if (data !== undefined) acc[field] = JSON.stringify(data);
+			return acc;
+		}, {} as Record<string, string>);
 	},
 };
 
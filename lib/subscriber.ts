@@ -0,0 +1,91 @@
+import type { createClient } from 'redis';
+import type { RedisStoreAdapter } from './adapter';
+import { nodeClients } from './cluster';
+
+type Client = ReturnType<typeof createClient>;
+
+const EXPIRED_PATTERN = '__keyevent@*__:expired';
+
+/**
+ * A subscriber to Redis keyspace notifications emitting the `expired` event of a {@link RedisStoreAdapter} when a
+ * session key times out.
+ *
+ * @remarks requires expired events to be enabled on the Redis server (e.g. `CONFIG SET notify-keyspace-events Ex`),
+ * and the {@link RedisStoreAdapterOptions.expirationEvents} option to tell sessions apart from tombstones.
+ */
+export class ExpirationSubscriber {
+	readonly adapter: RedisStoreAdapter;
+	/* The duplicated clients subscribed to every master node. */
+	protected _clients: Client[] = [];
+
+	constructor(adapter: RedisStoreAdapter) {
+		this.adapter = adapter;
+	}
+
+	/**
+	 * Subscribe to the expired key notifications of every master node with duplicated clients.
+	 */
+	async start() {
+		if (this._clients.length) return;
+
+		this._clients = nodeClients(this.adapter.client).map(client => client.duplicate());
+		await Promise.all(
+			this._clients.map(async client => {
+				await client.connect();
+				await client.pSubscribe(EXPIRED_PATTERN, key => this._onExpired(key));
+			}),
+		);
+	}
+
+	/**
+	 * Unsubscribe and disconnect the duplicated clients.
+	 */
+	async stop() {
+		const clients = this._clients;
+		this._clients = [];
+		await Promise.all(clients.map(client => client.quit()));
+	}
+
+	/**
+	 * Handle an expired key, emitting the `expired` event unless the key is a tombstone or is not a session key.
+	 *
+	 * @remarks failures are emitted as `error` events of the adapter only if it has `error` listeners, as an unhandled
+	 * `error` event would reject the notification callback (and terminate the process).
+	 *
+	 * @param key
+	 */
+	protected async _onExpired(key: string) {
+		const { adapter } = this;
+		if (!adapter.isSessionKey(key)) return;
+
+		const sessionId = key.substring(adapter.prefix.length);
+		try {
+			if (adapter.expirationEvents && (await this._isTombstone(key))) return;
+			adapter.emit('expired', { sessionId });
+		} catch (error) {
+			if (adapter.listenerCount('error')) adapter.emit('error', error);
+		}
+	}
+
+	/**
+	 * Check whether an expired key is recorded in the registry of tombstones of the store, or of the tenant storing the
+	 * key (with the default tenant prefix).
+	 *
+	 * @remarks the entry is left in the registry, as every store instance receives the notification; entries are pruned
+	 * when further tombstones are recorded (see {@link RedisStoreAdapterOptions.expirationEvents}).
+	 *
+	 * @param key
+	 *
+	 * @return `true` if the key was a tombstone.
+	 */
+	protected async _isTombstone(key: string) {
+		const { adapter } = this;
+		const suffix = key.substring(adapter.prefix.length);
+		const separator = suffix.indexOf(':');
+		const tenant = separator > 0 ? adapter.tenant(suffix.substring(0, separator)) : null;
+		const owner = tenant && key.startsWith(tenant.prefix) ? tenant : adapter;
+
+		const score = await adapter.client.zScore(owner.tombstonesKey(), key.substring(owner.prefix.length));
+		return score !== null;
+	}
+}
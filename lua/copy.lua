@@ -0,0 +1,14 @@
+if redis.call('EXISTS', KEYS[1]) == 1 then
+	return 0
+end
+
+if ARGV[2] == 'hash' then
+	redis.call('HSET', KEYS[1], unpack(ARGV, 3))
+else
+	redis.call('SET', KEYS[1], ARGV[3])
+end
+
+if tonumber(ARGV[1]) > 0 then
+	redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return 1
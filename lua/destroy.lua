@@ -0,0 +1,27 @@
+local kind = redis.call('TYPE', KEYS[1])['ok']
+local live = 0
+if kind == 'hash' then
+	live = 1 - redis.call('HEXISTS', KEYS[1], '__tombstone')
+elseif kind == 'string' and string.sub(redis.call('GET', KEYS[1]), 1, 9) ~= 'TOMBSTONE' then
+	live = 1
+end
+
+local result
+if ARGV[1] == '1' then
+	if ARGV[4] == 'hash' then
+		redis.call('DEL', KEYS[1])
+		redis.call('HSET', KEYS[1], '__tombstone', ARGV[5])
+		result = redis.call('EXPIRE', KEYS[1], ARGV[2])
+	else
+		redis.call('SET', KEYS[1], ARGV[5], 'EX', ARGV[2])
+		result = 1
+	end
+else
+	result = redis.call('DEL', KEYS[1])
+end
+
+if KEYS[2] then
+	redis.call('ZREM', KEYS[2], ARGV[3])
+end
+
+return { result, live }
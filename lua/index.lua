@@ -0,0 +1,13 @@
+if ARGV[1] == 'remove' then
+	return redis.call('ZREM', KEYS[1], ARGV[2])
+end
+
+if ARGV[1] == 'add' then
+	redis.call('ZADD', KEYS[1], ARGV[3], ARGV[2])
+end
+
+if redis.call('PTTL', KEYS[1]) < tonumber(ARGV[4]) then
+	redis.call('PEXPIRE', KEYS[1], ARGV[4])
+end
+
+return 1
@@ -0,0 +1,14 @@
+local kind = redis.call('TYPE', KEYS[1])['ok']
+if kind ~= ARGV[1] then
+	return 0
+end
+
+if kind == 'hash' then
+	if (redis.call('HGET', KEYS[1], 'lastModified') or '') ~= ARGV[2] then
+		return 0
+	end
+elseif redis.call('GET', KEYS[1]) ~= ARGV[2] then
+	return 0
+end
+
+return redis.call('DEL', KEYS[1])
@@ -0,0 +1,31 @@
+local kind = redis.call('TYPE', KEYS[1])['ok']
+if kind ~= ARGV[1] then
+	return 0
+end
+
+local ttl = redis.call('PTTL', KEYS[1])
+
+if kind == 'hash' then
+	local version = redis.call('HGET', KEYS[1], 'lastModified') or ''
+	if version ~= ARGV[2] or redis.call('HEXISTS', KEYS[1], '__tombstone') == 1 then
+		return 0
+	end
+
+	redis.call('DEL', KEYS[1])
+	redis.call('HSET', KEYS[1], unpack(ARGV, 3))
+	if ttl > 0 then
+		redis.call('PEXPIRE', KEYS[1], ttl)
+	end
+	return 1
+end
+
+if redis.call('GET', KEYS[1]) ~= ARGV[2] then
+	return 0
+end
+
+if ttl > 0 then
+	redis.call('SET', KEYS[1], ARGV[3], 'PX', ttl)
+else
+	redis.call('SET', KEYS[1], ARGV[3])
+end
+return 1
@@ -0,0 +1,45 @@
+local kind = redis.call('TYPE', KEYS[1])['ok']
+if kind == 'hash' then
+	if redis.call('HEXISTS', KEYS[1], '__tombstone') == 1 then
+		return nil
+	end
+elseif kind ~= 'string' or string.sub(redis.call('GET', KEYS[1]), 1, 9) == 'TOMBSTONE' then
+	return nil
+end
+
+if KEYS[2] then
+	if redis.call('EXISTS', KEYS[2]) == 1 then
+		return 0
+	end
+	redis.call('RENAME', KEYS[1], KEYS[2])
+else
+	-- The new key may be served by another cluster node, so the session was copied by the client beforehand; the
+	-- previous key is only replaced if the session was not modified since it was copied
+	local version
+	if kind == 'hash' then
+		version = redis.call('HGET', KEYS[1], 'lastModified') or ''
+	else
+		version = redis.call('GET', KEYS[1])
+	end
+	if version ~= ARGV[5] then
+		return 0
+	end
+end
+
+if kind == 'hash' then
+	redis.call('DEL', KEYS[1])
+	redis.call('HSET', KEYS[1], '__tombstone', ARGV[4])
+	redis.call('EXPIRE', KEYS[1], ARGV[1])
+else
+	redis.call('SET', KEYS[1], ARGV[4], 'EX', ARGV[1])
+end
+
+if KEYS[3] then
+	local score = redis.call('ZSCORE', KEYS[3], ARGV[2])
+	if score then
+		redis.call('ZREM', KEYS[3], ARGV[2])
+		redis.call('ZADD', KEYS[3], score, ARGV[3])
+	end
+end
+
+return 1
@@ -0,0 +1,73 @@
+if redis.call('HEXISTS', KEYS[1], '__tombstone') == 1 then
+	return nil
+end
+
+local exists = redis.call('EXISTS', KEYS[1]) == 1
+if ARGV[6] == 'partial' and not exists then
+	return { 'MISSING' }
+end
+
+if ARGV[4] == '1' and exists then
+	local version = tonumber(redis.call('HGET', KEYS[1], 'lastModified'))
+	if version ~= tonumber(ARGV[5]) then
+		return { 'CONFLICT', redis.call('HGETALL', KEYS[1]) }
+	end
+end
+
+-- Enforce the maximum number of sessions of the user (see `set.lua`)
+local evicted = {}
+local limit = tonumber(ARGV[7])
+if KEYS[2] and limit > 0 and not redis.call('ZSCORE', KEYS[2], ARGV[2]) then
+	local live = {}
+	for _, id in ipairs(redis.call('ZRANGE', KEYS[2], 0, -1)) do
+		local key = ARGV[9] .. id
+		if redis.call('EXISTS', key) == 1 and redis.call('HEXISTS', key, '__tombstone') == 0 then
+			table.insert(live, id)
+		else
+			redis.call('ZREM', KEYS[2], id)
+		end
+	end
+
+	local excess = #live - limit + 1
+	if excess > 0 then
+		if ARGV[8] == 'reject' then
+			return { 'LIMIT' }
+		end
+
+		for i = 1, excess do
+			local key = ARGV[9] .. live[i]
+			redis.call('DEL', key)
+			redis.call('HSET', key, '__tombstone', ARGV[11])
+			redis.call('EXPIRE', key, ARGV[10])
+			redis.call('ZREM', KEYS[2], live[i])
+			table.insert(evicted, live[i])
+		end
+	end
+end
+
+if ARGV[6] == 'full' then
+	redis.call('DEL', KEYS[1])
+end
+
+local n = tonumber(ARGV[12])
+if n > 0 then
+	redis.call('HSET', KEYS[1], unpack(ARGV, 13, 12 + n * 2))
+end
+if #ARGV > 12 + n * 2 then
+	redis.call('HDEL', KEYS[1], unpack(ARGV, 13 + n * 2))
+end
+
+redis.call('PEXPIRE', KEYS[1], ARGV[1])
+
+if KEYS[2] then
+	redis.call('ZADD', KEYS[2], ARGV[3], ARGV[2])
+	if redis.call('PTTL', KEYS[2]) < tonumber(ARGV[1]) then
+		redis.call('PEXPIRE', KEYS[2], ARGV[1])
+	end
+end
+
+local result = exists and 'updated' or 'created'
+if #evicted > 0 then
+	return { result, unpack(evicted) }
+end
+return result
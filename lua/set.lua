@@ -1,6 +1,60 @@
 local value = redis.call('GET', KEYS[1])
-if value == 'TOMBSTONE' then
+if value and string.sub(value, 1, 9) == 'TOMBSTONE' then
 	return nil
 end
 
-return redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+if ARGV[5] == '1' and value then
+	local ok, stored = pcall(cjson.decode, value)
+	local version = ok and type(stored) == 'table' and stored.lastModified or nil
+	if type(version) ~= 'number' then
+		version = nil
+	end
+
+	if version ~= tonumber(ARGV[6]) then
+		return { 'CONFLICT', value }
+	end
+end
+
+-- Enforce the maximum number of sessions of the user (only for sessions not yet indexed); the indexed sessions are
+-- read by their key (prefix and id) from the oldest, pruning the entries of expired and destroyed sessions
+local evicted = {}
+local limit = tonumber(ARGV[7])
+if KEYS[2] and limit > 0 and not redis.call('ZSCORE', KEYS[2], ARGV[3]) then
+	local live = {}
+	for _, id in ipairs(redis.call('ZRANGE', KEYS[2], 0, -1)) do
+		local stored = redis.call('GET', ARGV[9] .. id)
+		if stored and string.sub(stored, 1, 9) ~= 'TOMBSTONE' then
+			table.insert(live, id)
+		else
+			redis.call('ZREM', KEYS[2], id)
+		end
+	end
+
+	local excess = #live - limit + 1
+	if excess > 0 then
+		if ARGV[8] == 'reject' then
+			return { 'LIMIT' }
+		end
+
+		for i = 1, excess do
+			redis.call('SET', ARGV[9] .. live[i], ARGV[11], 'EX', ARGV[10])
+			redis.call('ZREM', KEYS[2], live[i])
+			table.insert(evicted, live[i])
+		end
+	end
+end
+
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+
+if KEYS[2] then
+	redis.call('ZADD', KEYS[2], ARGV[4], ARGV[3])
+	if redis.call('PTTL', KEYS[2]) < tonumber(ARGV[2]) then
+		redis.call('PEXPIRE', KEYS[2], ARGV[2])
+	end
+end
+
+local result = value and 'updated' or 'created'
+if #evicted > 0 then
+	return { result, unpack(evicted) }
+end
+return result
@@ -1,6 +1,47 @@
-local value = redis.call('GET', KEYS[1])
-if value == 'TOMBSTONE' or value == nil then
+local kind = redis.call('TYPE', KEYS[1])['ok']
+local value
+if kind == 'hash' then
+	if redis.call('HEXISTS', KEYS[1], '__tombstone') == 1 then
+		return nil
+	end
+elseif kind == 'string' then
+	value = redis.call('GET', KEYS[1])
+	if string.sub(value, 1, 9) == 'TOMBSTONE' then
+		return nil
+	end
+else
 	return nil
 end
 
-return redis.call('PEXPIRE', KEYS[1], ARGV[1])
+local ttl = tonumber(ARGV[1])
+local lifetime = tonumber(ARGV[2])
+
+if lifetime > 0 then
+	local createdAt = tonumber(ARGV[4])
+	if not createdAt then
+		if kind == 'hash' then
+			createdAt = tonumber(redis.call('HGET', KEYS[1], 'createdAt'))
+		else
+			local ok, stored = pcall(cjson.decode, value)
+			createdAt = ok and type(stored) == 'table' and tonumber(stored.createdAt) or nil
+		end
+	end
+
+	if createdAt then
+		local remaining = createdAt + lifetime - tonumber(ARGV[3])
+		if remaining <= 0 then
+			return -1
+		end
+		if remaining < ttl then
+			ttl = remaining
+		end
+	end
+end
+
+redis.call('PEXPIRE', KEYS[1], ttl)
+
+if KEYS[2] and redis.call('PTTL', KEYS[2]) < ttl then
+	redis.call('PEXPIRE', KEYS[2], ttl)
+end
+
+return ttl
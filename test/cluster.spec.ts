@@ -0,0 +1,195 @@
+import * as redis from 'redis';
+import * as session from 'express-session';
+import { assert } from 'chai';
+import * as sinon from 'sinon';
+import { GenericContainer, StartedTestContainer, Wait } from 'testcontainers';
+import { RedisStoreAdapter, SessionEviction, SessionPage } from '../lib';
+
+const CLUSTER_PORTS = [7000, 7001, 7002, 7003, 7004, 7005];
+const SESSION_IDS = [...Array(50).keys()].map(i => `session-${i}`);
+
+const createFakeSession = (data: object, expires?: number) => {
+	return {
+		...data,
+		cookie: {
+			originalMaxAge: 0,
+			expires: expires === undefined ? undefined : new Date(expires),
+		},
+	} as unknown as session.SessionData;
+};
+
+/* eslint-disable func-names */
+describe('connect-redis-session (cluster):', function () {
+	let container: StartedTestContainer;
+	let clusterClient: ReturnType<typeof redis.createCluster>;
+	let access: RedisStoreAdapter;
+
+	before('create Redis cluster container', async function () {
+		this.timeout(60000);
+		container = await new GenericContainer('grokzen/redis-cluster:7.0.10')
+			.withEnv('IP', '0.0.0.0')
+			.withExposedPorts(...CLUSTER_PORTS)
+			.withWaitStrategy(Wait.forLogMessage(/Cluster state changed: ok/))
+			.start();
+	});
+
+	before('create Redis cluster client', async function () {
+		this.timeout(20000);
+		clusterClient = redis.createCluster({
+			rootNodes: [{ url: `redis://${container.getHost()}:${container.getMappedPort(CLUSTER_PORTS[0])}` }],
+			nodeAddressMap: (address: string) => ({
+				host: container.getHost(),
+				port: container.getMappedPort(Number(address.split(':').pop())),
+			}),
+		});
+		await clusterClient.connect();
+	});
+
+	before('create Redis store adapter', function () {
+		access = new RedisStoreAdapter({
+			client: clusterClient,
+			scanCount: 10,
+			getUserId: sessionData => (sessionData as { user?: { id: string } }).user?.id,
+		});
+	});
+
+	after('disconnect client and stop container', async function () {
+		if (clusterClient) await clusterClient.quit();
+		if (container) await container.stop();
+	});
+
+	describe('RedisStoreAdapter', function () {
+		beforeEach('reset the database', async function () {
+			await Promise.all(clusterClient.getMasters().map(node => node.client.flushDb()));
+		});
+
+		beforeEach('set session objects', async function () {
+			await Promise.all(
+				SESSION_IDS.map((sessionId, i) =>
+					access.set(sessionId, createFakeSession({ user: { id: `user-${i % 5}` } }, Date.now() + 36e5)),
+				),
+			);
+		});
+
+		it('Should detect the cluster client', function () {
+			assert.isTrue(access.cluster);
+		});
+
+		it('Should scan keys across every master node', async function () {
+			const keys: string[] = [];
+			// eslint-disable-next-line no-restricted-syntax
+			for await (const key of access.generateKeys(false)) {
+				keys.push(key);
+			}
+
+			assert.sameMembers(
+				keys,
+				SESSION_IDS.map(sessionId => access.key(sessionId)),
+			);
+		});
+
+		it('Should count all sessions', async function () {
+			assert.strictEqual(await access.length(), SESSION_IDS.length);
+		});
+
+		it('Should return all sessions', async function () {
+			const result = await access.all();
+			assert.sameMembers(Object.keys(result), SESSION_IDS);
+		});
+
+		it('Should page through sessions across every master node', async function () {
+			const sessionIds: string[] = [];
+			let cursor: string | null = null;
+			do {
+				// eslint-disable-next-line no-await-in-loop
+				const page: SessionPage = await access.page({ cursor, limit: 7 });
+				const ids = Object.keys(page.sessions);
+				if (page.nextCursor) assert.lengthOf(ids, 7);
+
+				sessionIds.push(...ids);
+				cursor = page.nextCursor;
+			} while (cursor);
+
+			assert.sameMembers(sessionIds, SESSION_IDS);
+		});
+
+		it('Should list and destroy the sessions of a user', async function () {
+			const sessions = await access.listForUser('user-0');
+			assert.lengthOf(Object.keys(sessions), SESSION_IDS.length / 5);
+
+			const result = await access.destroyAllForUser('user-0');
+			assert.strictEqual(result, SESSION_IDS.length / 5);
+			assert.deepEqual(await access.listForUser('user-0'), {});
+		});
+
+		it('Should rotate a session id across nodes', async function () {
+			const [sessionId] = SESSION_IDS;
+			const newId = (await access.rotate(sessionId)) as string;
+
+			assert.deepInclude((await access.get(newId)) as object, { user: { id: 'user-0' } });
+			assert.isNull(await access.get(sessionId));
+			assert.strictEqual(await access.rotatedTo(sessionId), newId);
+			assert.includeMembers(Object.keys(await access.listForUser('user-0')), [newId]);
+			assert.notInclude(Object.keys(await access.listForUser('user-0')), sessionId);
+		});
+
+		it('Should not rotate a session to an existing session id', async function () {
+			const [sessionId, existingId] = SESSION_IDS;
+			try {
+				await access.rotate(sessionId, existingId);
+				assert.fail('expected an error');
+			} catch (error) {
+				assert.strictEqual((error as Error).message, `Session id \`${existingId}\` already exists`);
+			}
+
+			assert.isNotNull(await access.get(sessionId));
+			assert.isNull(await access.rotatedTo(sessionId));
+		});
+
+		it('Should keep the session when its rotation fails', async function () {
+			const [sessionId] = SESSION_IDS;
+			const scripts = (access as unknown as { _scripts: { run: (name: string) => Promise<unknown> } })._scripts;
+			const run = sinon.stub(scripts, 'run').callThrough();
+			run.withArgs('rotate').rejects(new Error('foo'));
+
+			try {
+				await access.rotate(sessionId, 'session-new');
+				assert.fail('expected an error');
+			} catch (error) {
+				assert.strictEqual((error as Error).message, 'foo');
+			} finally {
+				run.restore();
+			}
+
+			assert.isNotNull(await access.get(sessionId));
+			assert.isNull(await access.get('session-new'));
+		});
+
+		it('Should evict the sessions of a user exceeding the session limit', async function () {
+			const limited = new RedisStoreAdapter({
+				client: clusterClient,
+				getUserId: access.getUserId,
+				maxSessionsPerUser: SESSION_IDS.length / 5,
+			});
+
+			const result = await limited.set(
+				'session-new',
+				createFakeSession({ user: { id: 'user-0' } }, Date.now() + 36e5),
+			);
+			assert.instanceOf(result, SessionEviction);
+			assert.lengthOf((result as SessionEviction).evicted, 1);
+			assert.lengthOf(Object.keys(await limited.listForUser('user-0')), SESSION_IDS.length / 5);
+		});
+
+		it('Should clear all sessions', async function () {
+			const result = await access.clear();
+			assert.strictEqual(result, SESSION_IDS.length);
+			assert.strictEqual(await access.length(), 0);
+			assert.strictEqual(await access.length(true), SESSION_IDS.length);
+
+			assert.strictEqual(await access.clear(false), SESSION_IDS.length);
+			assert.strictEqual(await access.length(true), 0);
+		});
+	});
+});
+/* eslint-enable func-names */
@@ -0,0 +1,65 @@
+import { assert } from 'chai';
+import session from 'express-session';
+import { CompressionAlgorithm, createCompressedSerializer } from '../lib/compression';
+import serializer from '../lib/serializer';
+
+const createFakeSession = (data: object, expires?: number, lastModified?: number) => {
+	return {
+		...data,
+		cookie: {
+			originalMaxAge: 0,
+			expires: expires === undefined ? undefined : new Date(expires),
+		},
+		lastModified: lastModified === undefined ? undefined : new Date(lastModified),
+	} as unknown as session.SessionData;
+};
+
+/* eslint-disable func-names */
+const testCompression = (algorithm: CompressionAlgorithm) => {
+	it(`Should compress and decompress large values (${algorithm})`, function () {
+		const compressed = createCompressedSerializer({ algorithm, threshold: 100 });
+		const data = createFakeSession({ cache: 'x'.repeat(1000) }, 0, 0);
+		const text = compressed.stringify(data);
+
+		assert.match(text, new RegExp(`^z:v1:${algorithm}:`));
+		assert.isBelow(text.length, serializer.stringify(data).length);
+		assert.deepEqual(compressed.parse(text), data);
+	});
+};
+
+describe('compression:', function () {
+	describe('createCompressedSerializer', function () {
+		/* eslint-disable mocha/no-setup-in-describe */
+		testCompression('gzip');
+		testCompression('deflate');
+		testCompression('brotli');
+		/* eslint-enable mocha/no-setup-in-describe */
+
+		it('Should store values below the threshold uncompressed', function () {
+			const compressed = createCompressedSerializer({ threshold: 1000 });
+			const data = createFakeSession({ foo: 'bar' }, 0, 0);
+			const text = compressed.stringify(data);
+
+			assert.strictEqual(text, serializer.stringify(data));
+			assert.deepEqual(compressed.parse(text), data);
+		});
+
+		it('Should decompress values with compression disabled', function () {
+			const data = createFakeSession({ cache: 'x'.repeat(1000) }, 0, 0);
+			const text = createCompressedSerializer({ algorithm: 'brotli', threshold: 0 }).stringify(data);
+			const compressed = createCompressedSerializer({ algorithm: false });
+
+			assert.strictEqual(compressed.stringify(data), serializer.stringify(data));
+			assert.deepEqual(compressed.parse(text), data);
+			assert.isTrue(compressed.opaque);
+		});
+
+		it('Should raise an exception for unsupported formats', function () {
+			const compressed = createCompressedSerializer();
+
+			assert.throw(() => compressed.parse('z:v2:gzip:AAAA'), Error);
+			assert.throw(() => compressed.parse('z:v1:lzma:AAAA'), Error);
+		});
+	});
+});
+/* eslint-enable func-names */
@@ -0,0 +1,88 @@
+import { randomBytes } from 'crypto';
+import { assert } from 'chai';
+import session from 'express-session';
+import { createEncryptedSerializer, SessionDecryptionError } from '../lib/encryption';
+import serializer from '../lib/serializer';
+
+const createFakeSession = (data: object, expires?: number, lastModified?: number) => {
+	return {
+		...data,
+		cookie: {
+			originalMaxAge: 0,
+			expires: expires === undefined ? undefined : new Date(expires),
+		},
+		lastModified: lastModified === undefined ? undefined : new Date(lastModified),
+	} as unknown as session.SessionData;
+};
+
+/* eslint-disable func-names */
+describe('encryption:', function () {
+	describe('createEncryptedSerializer', function () {
+		let keys: Record<'a' | 'b', Buffer>;
+		let data: session.SessionData;
+
+		before('configure encryption keys', function () {
+			keys = { a: randomBytes(32), b: randomBytes(32) };
+		});
+
+		beforeEach('configure session object', function () {
+			data = createFakeSession({ user: { id: 'abcd', token: 'secret' } }, 0, 0);
+		});
+
+		it('Should encrypt and decrypt session data', function () {
+			const encrypted = createEncryptedSerializer({ keys, activeKeyId: 'a' });
+			const text = encrypted.stringify(data);
+
+			assert.match(text, /^enc:v1:a:/);
+			assert.notInclude(text, 'secret');
+			assert.deepEqual(encrypted.parse(text), data);
+		});
+
+		it('Should decrypt values encrypted with previous keys', function () {
+			const previous = createEncryptedSerializer({ keys, activeKeyId: 'a' });
+			const current = createEncryptedSerializer({ keys, activeKeyId: 'b' });
+			const text = previous.stringify(data);
+
+			assert.isFalse(current.isCurrent(text));
+			assert.deepEqual(current.parse(text), data);
+			assert.isTrue(current.isCurrent(current.stringify(data)));
+		});
+
+		it('Should reject tampered values', function () {
+			const encrypted = createEncryptedSerializer({ keys, activeKeyId: 'a' });
+			const segments = encrypted.stringify(data).split(':');
+			const ciphertext = Buffer.from(segments[5], 'base64');
+			ciphertext[0] ^= 1; // eslint-disable-line no-bitwise
+			segments[5] = ciphertext.toString('base64');
+
+			assert.throw(() => encrypted.parse(segments.join(':')), SessionDecryptionError);
+		});
+
+		it('Should reject values encrypted with unknown keys', function () {
+			const text = createEncryptedSerializer({ keys, activeKeyId: 'a' }).stringify(data);
+			const encrypted = createEncryptedSerializer({ keys: { b: keys.b }, activeKeyId: 'b' });
+
+			assert.throw(() => encrypted.parse(text), SessionDecryptionError);
+		});
+
+		it('Should only accept plaintext values if allowed', function () {
+			const text = serializer.stringify(data);
+
+			assert.throw(
+				() => createEncryptedSerializer({ keys, activeKeyId: 'a' }).parse(text),
+				SessionDecryptionError,
+			);
+			assert.deepEqual(
+				createEncryptedSerializer({ keys, activeKeyId: 'a', allowPlaintext: true }).parse(text),
+				data,
+			);
+		});
+
+		it('Should raise an exception for invalid keyrings', function () {
+			assert.throw(() => createEncryptedSerializer({ keys, activeKeyId: 'c' }), Error);
+			assert.throw(() => createEncryptedSerializer({ keys: { a: randomBytes(16) }, activeKeyId: 'a' }), Error);
+			assert.throw(() => createEncryptedSerializer({ keys: { 'a:b': keys.a }, activeKeyId: 'a:b' }), Error);
+		});
+	});
+});
+/* eslint-enable func-names */
@@ -1,10 +1,36 @@
+import { randomBytes } from 'crypto';
 import * as redis from 'redis';
 import * as session from 'express-session';
+import { Readable } from 'stream';
 import { promisify } from 'util';
 import { assert } from 'chai';
 import * as sinon from 'sinon';
 import { GenericContainer, StartedTestContainer } from 'testcontainers';
-import { RedisStore, RedisStoreAdapter, RedisStoreOptions, SessionDataDict, SessionComparison } from '../lib';
+import {
+	CircuitOpenError,
+	CircuitStateChange,
+	createCompressedSerializer,
+	createEncryptedSerializer,
+	ExpirationSubscriber,
+	hashSessionId,
+	OperationContext,
+	RedisStore,
+	RedisStoreAdapter,
+	RedisStoreOptions,
+	SessionConflict,
+	SessionConflictError,
+	SessionDataDict,
+	SessionComparison,
+	SessionEviction,
+	SessionLimitError,
+	SessionLimitExceeded,
+	SessionCache,
+	SessionMigration,
+	SessionPage,
+	SessionRecord,
+	SESSION_EVENTS,
+	StoreTimeoutError,
+} from '../lib';
 import serializer from '../lib/serializer';
 
 const REDIS_PORT = 6379;
@@ -243,6 +269,180 @@ describe('connect-redis-session:', function () {
 				});
 			});
 
+			describe('Suite: merge conflicting writes', function () {
+				let session: session.SessionData;
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				beforeEach('configure and set session object', async function () {
+					mockDate.update(0);
+					await store.access.set(sid, createFakeSession({ user: { id: 'abcd' } }, 36e5));
+				});
+
+				after('restore the mock date', function () {
+					mockDate.update(0);
+				});
+
+				it('Should merge concurrent writes (three-way)', async function () {
+					const _store = new RedisStore({ client: redisClient, merge: 'three-way' });
+					session = (await promisify(_store.get.bind(_store))(sid)) as session.SessionData;
+
+					mockDate.update(1000);
+					await promisify(_store.set.bind(_store))(sid, { ...session, foo: 'bar' } as session.SessionData);
+
+					mockDate.update(2000);
+					const result = await promisify(_store.set.bind(_store))(sid, {
+						...session,
+						bar: 'baz',
+					} as session.SessionData);
+					assert.deepInclude(result as object, { foo: 'bar', bar: 'baz', lastModified: new Date(2000) });
+
+					const stored = await _store.access.get(sid);
+					assert.deepInclude(stored as object, { foo: 'bar', bar: 'baz' });
+				});
+
+				it('Should merge concurrent writes (custom)', async function () {
+					const _store = new RedisStore({
+						client: redisClient,
+						merge: ({ remote }) => ({ ...remote, merged: true }),
+					});
+					session = (await promisify(_store.get.bind(_store))(sid)) as session.SessionData;
+
+					mockDate.update(1000);
+					await promisify(_store.set.bind(_store))(sid, { ...session, foo: 'bar' } as session.SessionData);
+
+					mockDate.update(2000);
+					const result = await promisify(_store.set.bind(_store))(sid, session);
+					assert.deepInclude(result as object, { foo: 'bar', merged: true });
+				});
+
+				it('Should report the conflict after exhausting merge retries', function (done) {
+					const _store = new RedisStore({ client: redisClient, merge: 'three-way', mergeRetries: 0 });
+					mockDate.update(1000);
+					_store.set(sid, { ...session, lastModified: new Date(500) }, (error, result) => {
+						assert.instanceOf(error, SessionConflictError);
+						assert.strictEqual(result, null);
+						done();
+					});
+				});
+			});
+
+			describe('Suite: resilience', function () {
+				let session: session.SessionData;
+				const get = (resilientStore: RedisStore, id: string) =>
+					new Promise<session.SessionData | null>((resolve, reject) => {
+						resilientStore.get(id, (error, result) => (error ? reject(error) : resolve(result)));
+					});
+				const set = (resilientStore: RedisStore, id: string) =>
+					new Promise<session.SessionData | null>((resolve, reject) => {
+						resilientStore.set(id, session, (error, result) => (error ? reject(error) : resolve(result)));
+					});
+
+				before('create the session', function () {
+					session = createFakeSession({ n: 1 }, 36e5);
+				});
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+					mockDate.update(0);
+				});
+
+				it('Should retry idempotent operations', async function () {
+					const resilientStore = new RedisStore({ client: redisClient, resilience: { retryDelayMs: 1 } });
+					const access = sinon.stub(resilientStore.access, 'get');
+					access.onFirstCall().rejects(new Error('foo'));
+					access.callThrough();
+
+					await resilientStore.access.set(sid, session);
+					assert.deepInclude((await get(resilientStore, sid)) as object, { n: 1 });
+					assert.strictEqual(access.callCount, 2);
+				});
+
+				it('Should time out operations', async function () {
+					const resilientStore = new RedisStore({
+						client: redisClient,
+						resilience: { timeoutMs: 10, retries: 0 },
+					});
+					sinon.stub(resilientStore.access, 'get').returns(new Promise(() => {}));
+
+					try {
+						await get(resilientStore, sid);
+						assert.fail('expected an error');
+					} catch (error) {
+						assert.instanceOf(error, StoreTimeoutError);
+					}
+				});
+
+				it('Should open the circuit after consecutive failures', async function () {
+					const resilientStore = new RedisStore({
+						client: redisClient,
+						resilience: { retries: 0, failureThreshold: 2, resetTimeoutMs: 1000 },
+					});
+					const events: CircuitStateChange[] = [];
+					resilientStore.on('circuit', (event: CircuitStateChange) => events.push(event));
+					const access = sinon.stub(resilientStore.access, 'get').rejects(new Error('foo'));
+
+					await get(resilientStore, sid).catch(() => null);
+					await get(resilientStore, sid).catch(() => null);
+					try {
+						await get(resilientStore, sid);
+						assert.fail('expected an error');
+					} catch (error) {
+						assert.instanceOf(error, CircuitOpenError);
+					}
+					assert.strictEqual(access.callCount, 2);
+
+					access.restore();
+					mockDate.update(1000);
+					assert.isNull(await get(resilientStore, sid));
+					assert.deepEqual(
+						events.map(({ state }) => state),
+						['open', 'half-open', 'closed'],
+					);
+				});
+
+				it('Should treat reads as missing sessions in the fail-open mode', async function () {
+					const resilientStore = new RedisStore({
+						client: redisClient,
+						resilience: { retries: 0, degradedMode: 'fail-open' },
+					});
+					const degraded = sinon.spy();
+					resilientStore.on('degraded', degraded);
+					sinon.stub(resilientStore.access, 'get').rejects(new Error('foo'));
+
+					await resilientStore.access.set(sid, session);
+					assert.isNull(await get(resilientStore, sid));
+					assert.isTrue(degraded.calledOnceWith(sinon.match({ operation: 'get', sessionId: sid })));
+				});
+
+				it('Should replay queued writes once the circuit closes', async function () {
+					const resilientStore = new RedisStore({
+						client: redisClient,
+						resilience: {
+							failureThreshold: 1,
+							resetTimeoutMs: 1000,
+							degradedMode: 'fail-open',
+							degradedWrites: 'queue',
+						},
+					});
+					const access = sinon.stub(resilientStore.access, 'set').rejects(new Error('foo'));
+
+					assert.isNull(await set(resilientStore, sid));
+					assert.isNull(await set(resilientStore, sid));
+					assert.isNull(await resilientStore.access.get(sid));
+
+					access.restore();
+					mockDate.update(1000);
+					assert.isNull(await get(resilientStore, sid));
+					await new Promise(resolve => {
+						setTimeout(resolve, 100);
+					});
+					assert.deepInclude((await resilientStore.access.get(sid)) as object, { n: 1 });
+				});
+			});
+
 			describe('Suite: noop callbacks', function () {
 				const session = null as unknown as session.SessionData;
 
@@ -427,6 +627,1769 @@ describe('connect-redis-session:', function () {
 				});
 			});
 
+			describe('Suite: user index', function () {
+				let access: RedisStoreAdapter;
+
+				before('create Redis store adapter', function () {
+					access = new RedisStoreAdapter({
+						client: redisClient,
+						getUserId: sessionData => (sessionData as { user?: { id: string } }).user?.id,
+					});
+				});
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				beforeEach('configure and set session objects', async function () {
+					await access.set('1234', createFakeSession({ user: { id: 'abcd' } }, mockDate.now() + 36e5));
+					await access.set('2345', createFakeSession({ user: { id: 'abcd' } }, mockDate.now() + 36e5));
+					await access.set('3456', createFakeSession({ user: { id: 'bcde' } }, mockDate.now() + 36e5));
+					await access.set('4567', createFakeSession({}, mockDate.now() + 36e5));
+				});
+
+				it('Should list the sessions of a user', async function () {
+					const result = await access.listForUser('abcd');
+					assert.sameMembers(Object.keys(result), ['1234', '2345']);
+				});
+
+				it('Should remove destroyed sessions from the index', async function () {
+					await access.destroy('1234');
+					const result = await access.listForUser('abcd');
+					assert.sameMembers(Object.keys(result), ['2345']);
+
+					const members = await redisClient.zRange(access.userKey('abcd'), 0, -1);
+					assert.sameMembers(members, ['2345']);
+				});
+
+				it('Should prune stale sessions from the index', async function () {
+					await redisClient.del(access.key('2345'));
+					const result = await access.listForUser('abcd');
+					assert.sameMembers(Object.keys(result), ['1234']);
+
+					const members = await redisClient.zRange(access.userKey('abcd'), 0, -1);
+					assert.sameMembers(members, ['1234']);
+				});
+
+				it('Should destroy all sessions of a user', async function () {
+					const result = await access.destroyAllForUser('abcd');
+					assert.strictEqual(result, 2);
+
+					const value = await redisClient.get(access.key('1234'));
+					assert.strictEqual(value, 'TOMBSTONE{"destroyedAt":0,"reason":"user"}');
+
+					const other = await access.get('3456');
+					assert.isNotNull(other);
+				});
+
+				it('Should destroy all sessions of a user with exceptions', async function () {
+					const result = await access.destroyAllForUser('abcd', { except: '2345', useTombstones: false });
+					assert.strictEqual(result, 1);
+
+					const sessions = await access.listForUser('abcd');
+					assert.sameMembers(Object.keys(sessions), ['2345']);
+				});
+			});
+
+			describe('Suite: session limit', function () {
+				const getUserId = (sessionData: session.SessionData) =>
+					(sessionData as { user?: { id: string } }).user?.id;
+				const createUserSession = () => createFakeSession({ user: { id: 'abcd' } }, 36e5);
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				afterEach('restore the mock date', function () {
+					mockDate.update(0);
+				});
+
+				it('Should require the `getUserId` option', function () {
+					assert.throws(
+						() => new RedisStoreAdapter({ client: redisClient, maxSessionsPerUser: 2 }),
+						'getUserId',
+					);
+				});
+
+				it('Should evict the least-recently-modified sessions', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, getUserId, maxSessionsPerUser: 2 });
+					const evicted = sinon.spy();
+					const destroyed = sinon.spy();
+					access.on('evicted', evicted);
+					access.on('destroyed', destroyed);
+
+					mockDate.update(1000);
+					await access.set('1234', createUserSession());
+					mockDate.update(2000);
+					await access.set('2345', createUserSession());
+					mockDate.update(3000);
+					await access.set('1234', createUserSession());
+
+					mockDate.update(4000);
+					const result = await access.set('3456', createUserSession());
+					assert.instanceOf(result, SessionEviction);
+					assert.deepEqual((result as SessionEviction).evicted, ['2345']);
+					assert.strictEqual((await access.get('3456'))?.lastModified?.getTime(), 4000);
+
+					assert.isNull(await access.get('2345'));
+					assert.strictEqual(
+						await redisClient.get(access.key('2345')),
+						'TOMBSTONE{"destroyedAt":4000,"reason":"evicted"}',
+					);
+					assert.sameMembers(Object.keys(await access.listForUser('abcd')), ['1234', '3456']);
+					assert.isTrue(evicted.calledOnceWith({ sessionId: '2345', userId: 'abcd', by: '3456' }));
+					assert.isTrue(destroyed.calledOnceWith({ sessionId: '2345', reason: 'evicted' }));
+				});
+
+				it('Should not count or evict sessions written for another user', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, getUserId, maxSessionsPerUser: 2 });
+					await access.set('1234', createUserSession());
+					await access.set('2345', createUserSession());
+					await access.set('2345', createFakeSession({ user: { id: 'bcde' } }, 36e5));
+
+					const result = await access.set('3456', createUserSession());
+					assert.notInstanceOf(result, SessionEviction);
+					assert.deepInclude((await access.get('2345')) as object, { user: { id: 'bcde' } });
+					assert.sameMembers(await redisClient.zRange(access.userKey('abcd'), 0, -1), ['1234', '3456']);
+				});
+
+				it('Should not count expired or destroyed sessions', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, getUserId, maxSessionsPerUser: 2 });
+					await access.set('1234', createUserSession());
+					await access.set('2345', createUserSession());
+					await redisClient.del(access.key('1234'));
+
+					const result = await access.set('3456', createUserSession());
+					assert.notInstanceOf(result, SessionEviction);
+					assert.deepEqual(await redisClient.zRange(access.userKey('abcd'), 0, -1), ['2345', '3456']);
+				});
+
+				it('Should reject new sessions with the `reject` policy', async function () {
+					const access = new RedisStoreAdapter({
+						client: redisClient,
+						getUserId,
+						maxSessionsPerUser: 1,
+						sessionLimitPolicy: 'reject',
+					});
+					await access.set('1234', createUserSession());
+
+					const result = await access.set('2345', createUserSession());
+					assert.instanceOf(result, SessionLimitExceeded);
+					assert.include(result, { sessionId: '2345', userId: 'abcd', limit: 1 });
+					assert.isNull(await redisClient.get(access.key('2345')));
+
+					// Existing sessions of the user are still written
+					assert.notInstanceOf(await access.set('1234', createUserSession()), SessionLimitExceeded);
+				});
+
+				it('Should enforce the limit in the hash storage mode', async function () {
+					const access = new RedisStoreAdapter({
+						client: redisClient,
+						storage: 'hash',
+						getUserId,
+						maxSessionsPerUser: 1,
+					});
+					await access.set('1234', createUserSession());
+
+					const result = await access.set('2345', createUserSession());
+					assert.deepEqual((result as SessionEviction).evicted, ['1234']);
+					assert.isNull(await access.get('1234'));
+					assert.isNotNull(await access.get('2345'));
+				});
+
+				it('Should report rejections to the `RedisStore.set` callback', function (done) {
+					const store = new RedisStore({
+						client: redisClient,
+						getUserId,
+						maxSessionsPerUser: 1,
+						sessionLimitPolicy: 'reject',
+					});
+
+					store.set('1234', createUserSession(), () => {
+						store.set('2345', createUserSession(), (error, result) => {
+							assert.instanceOf(error, SessionLimitError);
+							assert.strictEqual(result, null);
+							done();
+						});
+					});
+				});
+			});
+
+			describe('Suite: optimistic locking', function () {
+				let access: RedisStoreAdapter;
+				let session: session.SessionData;
+
+				before('create Redis store adapter', function () {
+					access = new RedisStoreAdapter({ client: redisClient, optimisticLocking: true });
+				});
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				beforeEach('configure and set session object', async function () {
+					mockDate.update(0);
+					session = (await access.set(
+						sid,
+						createFakeSession({ user: { id: 'abcd' } }, mockDate.now() + 36e5),
+					)) as session.SessionData;
+				});
+
+				after('restore the mock date', function () {
+					mockDate.update(0);
+				});
+
+				it('Should set the session loaded with the stored `lastModified`', async function () {
+					mockDate.update(1000);
+					const result = await access.set(sid, { ...session, foo: 'bar' } as session.SessionData);
+					assert.notInstanceOf(result, SessionConflict);
+					assert.deepEqual(result, createFakeSession({ ...session, foo: 'bar' }, 36e5, 1000));
+				});
+
+				it('Should reject the session loaded with a stale `lastModified`', async function () {
+					mockDate.update(1000);
+					await access.set(sid, { ...session, foo: 'bar' } as session.SessionData);
+
+					mockDate.update(2000);
+					const result = await access.set(sid, { ...session, foo: 'baz' } as session.SessionData);
+					assert.instanceOf(result, SessionConflict);
+					const expected = createFakeSession({ ...session, foo: 'bar' }, 36e5, 1000);
+					assert.deepEqual((result as SessionConflict).existing, expected);
+
+					const stored = await access.get(sid);
+					assert.propertyVal(stored, 'foo', 'bar');
+				});
+
+				it('Should reject serializers not exposing the session version', function () {
+					const keys = { a: randomBytes(32) };
+					const message = 'requires a serializer encoding sessions as JSON objects';
+
+					assert.throws(
+						() =>
+							new RedisStoreAdapter({
+								client: redisClient,
+								optimisticLocking: true,
+								serializer: createEncryptedSerializer({ keys, activeKeyId: 'a' }),
+							}),
+						message,
+					);
+					assert.throws(
+						() =>
+							new RedisStore({
+								client: redisClient,
+								merge: 'last-writer-wins',
+								serializer: createCompressedSerializer(),
+							}),
+						message,
+					);
+					assert.throws(
+						() =>
+							new RedisStoreAdapter({
+								client: redisClient,
+								optimisticLocking: true,
+								serializer: { parse: () => ({} as session.SessionData), stringify: () => 'foo' },
+							}),
+						message,
+					);
+					// Values compressed before compression was disabled remain stored
+					assert.throws(
+						() =>
+							new RedisStoreAdapter({
+								client: redisClient,
+								optimisticLocking: true,
+								serializer: createCompressedSerializer({ algorithm: false }),
+							}),
+						message,
+					);
+				});
+
+				it('Should report the conflict to the `RedisStore.set` callback', function (done) {
+					const store = new RedisStore({ client: redisClient, optimisticLocking: true });
+					mockDate.update(1000);
+					store.set(sid, { ...session, lastModified: new Date(500) }, (error, result) => {
+						assert.instanceOf(error, SessionConflictError);
+						assert.strictEqual(result, null);
+						done();
+					});
+				});
+			});
+
+			describe('Suite: hash storage', function () {
+				let access: RedisStoreAdapter;
+				let session: session.SessionData;
+
+				before('create Redis store adapter', function () {
+					access = new RedisStoreAdapter({ client: redisClient, storage: 'hash' });
+				});
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				beforeEach('configure and set session object', async function () {
+					mockDate.update(0);
+					session = (await access.set(
+						sid,
+						createFakeSession({ user: { id: 'abcd' }, foo: 'bar' }, mockDate.now() + 36e5),
+					)) as session.SessionData;
+				});
+
+				after('restore the mock date', function () {
+					mockDate.update(0);
+				});
+
+				it('Should store session fields in a hash', async function () {
+					const fields = await redisClient.hGetAll(access.key(sid));
+					assert.sameMembers(Object.keys(fields), ['cookie', 'lastModified', 'user', 'foo']);
+					assert.strictEqual(fields.foo, '"bar"');
+				});
+
+				it('Should get the previously set session', async function () {
+					const result = await access.get(sid);
+					assert.deepEqual(result, session);
+				});
+
+				it('Should only write changed fields', async function () {
+					const loaded = (await access.get(sid)) as session.SessionData;
+					await redisClient.hSet(access.key(sid), 'user', JSON.stringify({ id: 'bcde' }));
+
+					mockDate.update(1000);
+					const { foo, ...rest } = loaded as session.SessionData & { foo: string };
+					await access.set(sid, { ...rest, baz: foo } as session.SessionData);
+
+					const fields = await redisClient.hGetAll(access.key(sid));
+					assert.sameMembers(Object.keys(fields), ['cookie', 'lastModified', 'user', 'baz']);
+					assert.strictEqual(fields.user, JSON.stringify({ id: 'bcde' }));
+				});
+
+				it('Should write all fields of a session expired since it was loaded', async function () {
+					const loaded = (await access.get(sid)) as session.SessionData;
+					await redisClient.del(access.key(sid));
+
+					mockDate.update(1000);
+					await access.set(sid, loaded);
+
+					const result = await access.get(sid);
+					assert.deepInclude(result as object, { user: { id: 'abcd' }, foo: 'bar' });
+				});
+
+				it('Should not set or touch a destroyed session', async function () {
+					await access.destroy(sid);
+
+					const set = await access.set(sid, session);
+					assert.strictEqual(set, null);
+
+					const touch = await access.touch(sid, 36e2);
+					assert.strictEqual(touch, null);
+
+					const result = await access.get(sid);
+					assert.strictEqual(result, null);
+				});
+
+				it('Should count, get and clear all sessions', async function () {
+					await access.set('2345', session);
+					await access.destroy('2345');
+					await access.set('3456', session);
+
+					assert.strictEqual(await access.length(true), 3);
+					assert.strictEqual(await access.length(), 2);
+					assert.sameMembers(Object.keys(await access.all()), [sid, '3456']);
+
+					assert.strictEqual(await access.clear(), 3);
+					assert.strictEqual(await access.length(), 0);
+				});
+
+				it('Should raise an exception for serializers without field support', function () {
+					assert.throw(
+						() => new RedisStoreAdapter({ client: redisClient, storage: 'hash', serializer: JSON }),
+						Error,
+					);
+				});
+			});
+
+			describe('Suite: batching', function () {
+				let access: RedisStoreAdapter;
+
+				before('create Redis store adapter', function () {
+					access = new RedisStoreAdapter({ client: redisClient, batching: { maxBatchSize: 2 } });
+				});
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				beforeEach('set session objects', async function () {
+					await access.set('1234', createFakeSession({ n: 1 }, 36e5));
+					await access.set('2345', createFakeSession({ n: 2 }, 36e5));
+					await access.destroy('3456');
+				});
+
+				it('Should coalesce concurrent reads', async function () {
+					const mGet = sinon.spy(redisClient, 'mGet');
+					try {
+						const results = await Promise.all(
+							['1234', '1234', '2345', '3456', '4567'].map(sessionId => access.get(sessionId)),
+						);
+
+						assert.deepInclude(results[0] as object, { n: 1 });
+						assert.deepEqual(results[1], results[0]);
+						assert.deepInclude(results[2] as object, { n: 2 });
+						assert.isNull(results[3]);
+						assert.isNull(results[4]);
+						assert.deepEqual(
+							mGet.getCalls().map(call => call.args[0] as unknown),
+							[
+								['sessions:1234', 'sessions:2345'],
+								['sessions:3456', 'sessions:4567'],
+							],
+						);
+					} finally {
+						mGet.restore();
+					}
+				});
+
+				it('Should batch concurrent touches', async function () {
+					const results = await Promise.all([access.touch('1234', 36e2), access.touch('2345', 36e2)]);
+					results.forEach(result => assert.instanceOf(result, Date));
+					assert.isNull(await access.touch('4567', 36e2));
+				});
+			});
+
+			describe('Suite: scripts', function () {
+				let session: session.SessionData;
+
+				before('configure session object', function () {
+					session = createFakeSession({ user: { id: 'abcd' } }, 36e5);
+				});
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				it('Should reload scripts after the script cache is flushed', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient });
+					await access.set(sid, session);
+					await redisClient.scriptFlush();
+
+					const result = await access.touch(sid, 36e2);
+					assert.isNotNull(result);
+				});
+
+				it('Should run scripts as functions', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, useFunctions: true });
+					await access.set(sid, session);
+					await redisClient.functionFlush();
+
+					const result = await access.touch(sid, 36e2);
+					assert.isNotNull(result);
+
+					const libraries = await redisClient.functionList();
+					assert.lengthOf(libraries, 1);
+				});
+			});
+
+			describe('Suite: iteration', function () {
+				let access: RedisStoreAdapter;
+
+				before('create the adapter', function () {
+					access = new RedisStoreAdapter({ client: redisClient, scanCount: 2 });
+				});
+
+				beforeEach('populate the database', async function () {
+					await redisClient.flushDb();
+					await Promise.all(
+						['a', 'b', 'c', 'd', 'e'].map((id, n) => access.set(id, createFakeSession({ n }, 36e5))),
+					);
+					await access.destroy('e');
+				});
+
+				it('Should iterate over sessions, skipping tombstones', async function () {
+					const sessions: SessionDataDict = {};
+					// eslint-disable-next-line no-restricted-syntax
+					for await (const [sessionId, sessionData] of access.iterate({ concurrency: 2 })) {
+						assert.notProperty(sessions, sessionId);
+						sessions[sessionId] = sessionData;
+					}
+
+					assert.sameMembers(Object.keys(sessions), ['a', 'b', 'c', 'd']);
+					assert.deepInclude(sessions.c as object, { n: 2 });
+				});
+
+				it('Should filter and project sessions', async function () {
+					const entries: [string, number | undefined][] = [];
+					const iterator = access.iterate({
+						filter: (_, sessionId) => sessionId === 'a' || sessionId === 'c',
+						map: sessionData => (sessionData as { n?: number }).n,
+					});
+					// eslint-disable-next-line no-restricted-syntax
+					for await (const entry of iterator) {
+						entries.push(entry);
+					}
+
+					assert.sameDeepMembers(entries, [
+						['a', 0],
+						['c', 2],
+					]);
+				});
+
+				it('Should iterate over batches of sessions', async function () {
+					const batches: [string, session.SessionData][][] = [];
+					// eslint-disable-next-line no-restricted-syntax
+					for await (const batch of access.iterateBatches()) {
+						batches.push(batch);
+					}
+
+					assert.isTrue(batches.every(batch => batch.length > 0));
+					assert.sameMembers(
+						batches.reduce(
+							(acc, batch) => acc.concat(batch.map(([sessionId]) => sessionId)),
+							[] as string[],
+						),
+						['a', 'b', 'c', 'd'],
+					);
+				});
+
+				it('Should stop fetching batches once the consumer stops', async function () {
+					const fetch = sinon.spy(redisClient, 'mGet');
+					try {
+						// eslint-disable-next-line no-restricted-syntax,no-unreachable-loop
+						for await (const entry of access.iterate()) {
+							assert.isString(entry[0]);
+							break;
+						}
+						assert.isAtMost(fetch.callCount, 2);
+					} finally {
+						fetch.restore();
+					}
+				});
+
+				it('Should stream sessions', async function () {
+					const sessionIds: string[] = [];
+					// eslint-disable-next-line no-restricted-syntax
+					for await (const [sessionId] of access.stream({ map: () => null })) {
+						sessionIds.push(sessionId as string);
+					}
+
+					assert.sameMembers(sessionIds, ['a', 'b', 'c', 'd']);
+				});
+			});
+
+			describe('Suite: pagination', function () {
+				let access: RedisStoreAdapter;
+
+				before('create the adapter', function () {
+					access = new RedisStoreAdapter({ client: redisClient, scanCount: 3 });
+				});
+
+				beforeEach('populate the database', async function () {
+					await redisClient.flushDb();
+					await Promise.all(
+						[...Array(12).keys()].map(n => access.set(`session-${n}`, createFakeSession({ n }, 36e5))),
+					);
+					await access.destroy('session-0');
+					await access.destroy('session-1');
+				});
+
+				it('Should page through sessions, skipping tombstones', async function () {
+					const sizes: number[] = [];
+					const sessions: SessionDataDict = {};
+					let cursor: string | null = null;
+					do {
+						// eslint-disable-next-line no-await-in-loop
+						const page: SessionPage = await access.page({ cursor, limit: 4 });
+						sizes.push(Object.keys(page.sessions).length);
+						Object.assign(sessions, page.sessions);
+						cursor = page.nextCursor;
+						if (cursor) assert.match(cursor, /^[\w-]+$/);
+					} while (cursor);
+
+					assert.deepEqual(sizes, [4, 4, 2]);
+					assert.lengthOf(Object.keys(sessions), 10);
+					assert.notProperty(sessions, 'session-0');
+					assert.deepInclude(sessions['session-5'] as object, { n: 5 });
+				});
+
+				it('Should not skip sessions when the returned sessions are deleted between pages', async function () {
+					const remove = (page: SessionPage) =>
+						Promise.all(Object.keys(page.sessions).map(id => redisClient.del(access.key(id))));
+
+					const sessions: SessionDataDict = {};
+					let cursor: string | null = null;
+					do {
+						// eslint-disable-next-line no-await-in-loop
+						const page: SessionPage = await access.page({ cursor, limit: 1 });
+						Object.assign(sessions, page.sessions);
+						// eslint-disable-next-line no-await-in-loop
+						await remove(page);
+						cursor = page.nextCursor;
+					} while (cursor);
+
+					assert.lengthOf(Object.keys(sessions), 10);
+				});
+
+				it('Should return the same page for the same cursor', async function () {
+					const { nextCursor } = await access.page({ limit: 5 });
+					assert.isString(nextCursor);
+
+					const page = await access.page({ cursor: nextCursor, limit: 5 });
+					assert.lengthOf(Object.keys(page.sessions), 5);
+					assert.deepEqual(await access.page({ cursor: nextCursor, limit: 5 }), page);
+				});
+
+				it('Should reject invalid cursors', async function () {
+					try {
+						await access.page({ cursor: 'foo' });
+						assert.fail('expected an error');
+					} catch (error) {
+						assert.include((error as Error).message, 'Invalid page cursor');
+					}
+				});
+			});
+
+			describe('Suite: corrupt entries', function () {
+				beforeEach('populate the database', async function () {
+					await redisClient.flushDb();
+					await new RedisStoreAdapter({ client: redisClient }).set('1234', createFakeSession({ n: 1 }, 36e5));
+					await redisClient.set('sessions:2345', '{ "cookie": ', { PX: 36e5 });
+				});
+
+				it('Should throw decoding errors by default', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient });
+
+					try {
+						await access.get('2345');
+						assert.fail('expected an error');
+					} catch (error) {
+						assert.instanceOf(error, SyntaxError);
+					}
+				});
+
+				it('Should treat corrupt entries as missing', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, onParseError: 'missing' });
+
+					assert.isNull(await access.get('2345'));
+					assert.sameMembers(Object.keys(await access.all()), ['1234']);
+					assert.isString(await redisClient.get('sessions:2345'));
+				});
+
+				it('Should quarantine corrupt entries', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, onParseError: 'quarantine' });
+					const quarantined = sinon.spy();
+					access.on('quarantined', quarantined);
+
+					assert.sameMembers(Object.keys(await access.all()), ['1234']);
+					assert.isNull(await redisClient.get('sessions:2345'));
+					assert.isTrue(
+						quarantined.calledOnceWith(
+							sinon.match({ sessionId: '2345', key: access.quarantineKey('2345') }),
+						),
+					);
+
+					const record = await redisClient.hGetAll(access.quarantineKey('2345'));
+					assert.include(record, { value: '{ "cookie": ', storage: 'string' });
+					assert.closeTo(Number(record.ttl), 36e5, 5e3);
+					assert.isAbove(await redisClient.ttl(access.quarantineKey('2345')), 0);
+				});
+
+				it('Should skip quarantined entries in the hash storage mode', async function () {
+					const access = new RedisStoreAdapter({
+						client: redisClient,
+						storage: 'hash',
+						onParseError: 'quarantine',
+					});
+					await access.set('3456', createFakeSession({ n: 3 }, 36e5));
+					await redisClient.hSet(access.key('3456'), 'n', '{');
+
+					assert.isNull(await access.get('3456'));
+					assert.strictEqual(await redisClient.type(access.quarantineKey('3456')), 'hash');
+					assert.strictEqual(await access.length(), 0);
+					assert.deepEqual(await access.all(), {});
+				});
+
+				it('Should report corrupt entries', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient });
+					const entries = await access.scanCorrupt();
+
+					assert.lengthOf(entries, 1);
+					assert.include(entries[0], { sessionId: '2345', key: 'sessions:2345' });
+					assert.isString(entries[0].error);
+				});
+			});
+
+			describe('Suite: tenants', function () {
+				let access: RedisStoreAdapter;
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				beforeEach('populate the tenants', async function () {
+					access = new RedisStoreAdapter({ client: redisClient });
+					await access.set('1234', createFakeSession({ n: 1 }, 36e5));
+					await access.tenant('acme').set('2345', createFakeSession({ n: 2 }, 36e5));
+					await access.tenant('acme').set('3456', createFakeSession({ n: 3 }, 36e5));
+					await access.tenant('globex').set('2345', createFakeSession({ n: 4 }, 36e5));
+				});
+
+				it('Should store the sessions of tenants under their prefix', async function () {
+					assert.strictEqual(access.tenant('acme').key('2345'), 'sessions:acme:2345');
+					assert.strictEqual(access.tenant('acme'), access.tenant('acme'));
+					assert.isString(await redisClient.get('sessions:acme:2345'));
+
+					assert.deepInclude((await access.tenant('acme').get('2345')) as object, { n: 2 });
+					assert.deepInclude((await access.tenant('globex').get('2345')) as object, { n: 4 });
+					assert.isNull(await access.get('2345'));
+					assert.isNull(await access.tenant('acme').get('1234'));
+				});
+
+				it('Should scope bulk operations to a tenant', async function () {
+					assert.strictEqual(await access.length(false, { tenant: 'acme' }), 2);
+					assert.sameMembers(Object.keys(await access.all({ tenant: 'acme' })), ['2345', '3456']);
+					assert.strictEqual(await access.length(), 4);
+
+					assert.strictEqual(await access.clear(true, { tenant: 'acme' }), 2);
+					assert.strictEqual(await access.length(false, { tenant: 'acme' }), 0);
+					assert.deepInclude((await access.tenant('globex').get('2345')) as object, { n: 4 });
+					assert.deepInclude((await access.get('1234')) as object, { n: 1 });
+				});
+
+				it('Should skip the auxiliary keys of tenants', async function () {
+					const tenant = new RedisStoreAdapter({
+						client: redisClient,
+						getUserId: sessionData => (sessionData as { user?: { id: string } }).user?.id,
+					}).tenant('acme');
+					await tenant.set('4567', createFakeSession({ user: { id: 'abcd' } }, 36e5));
+
+					assert.strictEqual(await redisClient.type(tenant.userKey('abcd')), 'set');
+					assert.isFalse(access.isSessionKey(tenant.userKey('abcd')));
+					assert.isFalse(access.isSessionKey(tenant.tombstonesKey()));
+					assert.isTrue(access.isSessionKey(tenant.key('4567')));
+				});
+
+				it('Should support custom tenant prefixes', async function () {
+					const custom = new RedisStoreAdapter({
+						client: redisClient,
+						tenantPrefix: id => `tenants:{${id}}:`,
+					});
+					await custom.tenant('initech').set('1234', createFakeSession({ n: 5 }, 36e5));
+
+					assert.isString(await redisClient.get('tenants:{initech}:1234'));
+					assert.strictEqual(await custom.length(false, { tenant: 'initech' }), 1);
+				});
+
+				it('Should reject invalid tenant ids', function () {
+					['', 'a*', 'a:b', 'a b', 'a[b]', 'users', 'quarantine', 'tombstones'].forEach(tenantId => {
+						assert.throws(() => access.tenant(tenantId), 'Invalid tenant id');
+					});
+				});
+
+				it('Should forward the events of tenants', async function () {
+					const created = sinon.spy();
+					access.on('created', created);
+
+					await access.tenant('acme').set('4567', createFakeSession({ n: 5 }, 36e5));
+					assert.isTrue(created.calledOnceWith(sinon.match({ sessionId: '4567' })));
+				});
+
+				it('Should route the operations of the store to tenants', async function () {
+					const store = new RedisStore({
+						client: redisClient,
+						getTenantId: sid => sid.split('.')[0] || null,
+					});
+					const get = promisify(store.get.bind(store));
+
+					await promisify(store.set.bind(store))('acme.5678', createFakeSession({ n: 5 }, 36e5));
+					assert.isString(await redisClient.get('sessions:acme:acme.5678'));
+					assert.deepInclude((await get('acme.5678')) as object, { n: 5 });
+
+					assert.isTrue(await promisify(store.destroy.bind(store))('acme.5678'));
+					assert.isNull(await get('acme.5678'));
+				});
+			});
+
+			describe('Suite: bulk options', function () {
+				let access: RedisStoreAdapter;
+
+				before('create the adapter', function () {
+					access = new RedisStoreAdapter({ client: redisClient, scanCount: 1 });
+				});
+
+				beforeEach('populate the database', async function () {
+					await redisClient.flushDb();
+					await Promise.all(
+						['a', 'b', 'c', 'd', 'e'].map((id, n) => access.set(id, createFakeSession({ n }, 36e5))),
+					);
+					await access.destroy('e');
+				});
+
+				it('Should report the progress of bulk operations', async function () {
+					const onProgress = sinon.spy();
+					assert.strictEqual(await access.length(false, { onProgress }), 4);
+
+					const progress = onProgress
+						.getCalls()
+						.map(call => call.args[0] as { scanned: number; affected: number });
+					assert.isNotEmpty(progress);
+					assert.deepEqual(progress[progress.length - 1], { scanned: 5, affected: 4 });
+					progress.forEach(({ scanned, affected }) => assert.isAtMost(affected, scanned));
+				});
+
+				it('Should limit the number of batches in flight', async function () {
+					let inFlight = 0;
+					let maxInFlight = 0;
+					const mGet = redisClient.mGet.bind(redisClient);
+					const stub = sinon.stub(redisClient, 'mGet').callsFake(((keys: string[]) => {
+						inFlight += 1;
+						maxInFlight = Math.max(maxInFlight, inFlight);
+						return mGet(keys).then(values => {
+							inFlight -= 1;
+							return values;
+						});
+					}) as never);
+
+					try {
+						const sessions = await access.all({ concurrency: 2 });
+						assert.sameMembers(Object.keys(sessions), ['a', 'b', 'c', 'd']);
+						assert.isAtMost(maxInFlight, 2);
+					} finally {
+						stub.restore();
+					}
+				});
+
+				it('Should return partial results when aborted', async function () {
+					const controller = new AbortController();
+					const cleared = await access.clear(true, {
+						concurrency: 1,
+						signal: controller.signal,
+						onProgress: () => controller.abort(),
+					});
+
+					assert.isAtMost(cleared, 1);
+					assert.strictEqual(await access.length(), 4 - cleared);
+					assert.strictEqual(await access.length(false, { signal: controller.signal }), 0);
+				});
+
+				it('Should settle the batches in flight before rejecting', async function () {
+					let inFlight = 0;
+					const mGet = redisClient.mGet.bind(redisClient);
+					const stub = sinon.stub(redisClient, 'mGet').callsFake(((keys: string[]) => {
+						inFlight += 1;
+						const result = stub.callCount === 1 ? Promise.reject(new Error('foo')) : mGet(keys);
+						return result.then(
+							values => {
+								inFlight -= 1;
+								return values;
+							},
+							error => {
+								inFlight -= 1;
+								throw error;
+							},
+						);
+					}) as never);
+
+					try {
+						await access.all({ concurrency: 3 });
+						assert.fail('expected an error');
+					} catch (error) {
+						assert.strictEqual((error as Error).message, 'foo');
+						assert.strictEqual(inFlight, 0);
+					} finally {
+						stub.restore();
+					}
+				});
+
+				it('Should settle the batches in flight when scanning the keys fails', async function () {
+					let settled = false;
+					const mGet = redisClient.mGet.bind(redisClient);
+					const stubs = [
+						sinon.stub(redisClient, 'mGet').callsFake(((keys: string[]) =>
+							mGet(keys).then(values => {
+								settled = true;
+								return values;
+							})) as never),
+						sinon.stub(access, 'generateKeys').callsFake(function* () {
+							yield [access.key('a')];
+							throw new Error('foo');
+						} as never),
+					];
+
+					try {
+						await access.all({ concurrency: 2 });
+						assert.fail('expected an error');
+					} catch (error) {
+						assert.strictEqual((error as Error).message, 'foo');
+						assert.isTrue(settled);
+					} finally {
+						stubs.forEach(stub => stub.restore());
+					}
+				});
+			});
+
+			describe('Suite: export and import', function () {
+				let source: RedisStoreAdapter;
+				let target: RedisStoreAdapter;
+
+				before('create the adapters', function () {
+					source = new RedisStoreAdapter({ client: redisClient, scanCount: 2 });
+					target = new RedisStoreAdapter({ client: redisClient, prefix: 'restored:' });
+				});
+
+				beforeEach('populate the database', async function () {
+					await redisClient.flushDb();
+					await Promise.all(['a', 'b', 'c'].map((id, n) => source.set(id, createFakeSession({ n }, 36e5))));
+					await source.destroy('c');
+				});
+
+				const exportRecords = async (options = {}) => {
+					const records: SessionRecord[] = [];
+					// eslint-disable-next-line no-restricted-syntax
+					for await (const record of source.exportRecords(options)) {
+						records.push(record);
+					}
+					return records;
+				};
+
+				it('Should export sessions with their TTL', async function () {
+					const records = await exportRecords();
+					assert.sameMembers(
+						records.map(({ id }) => id),
+						['a', 'b'],
+					);
+					records.forEach(({ value, pttl }) => {
+						assert.isString(value);
+						assert.isAbove(pttl, 0);
+						assert.isAtMost(pttl, 36e5);
+					});
+
+					const tombstones = (await exportRecords({ includeTombstones: true })).filter(
+						({ id }) => id === 'c',
+					);
+					assert.lengthOf(tombstones, 1);
+					assert.match(tombstones[0].value as string, /^TOMBSTONE/);
+				});
+
+				it('Should export NDJSON lines', async function () {
+					let text = '';
+					// eslint-disable-next-line no-restricted-syntax
+					for await (const chunk of source.export()) {
+						text += String(chunk);
+					}
+
+					const lines = text.trim().split('\n');
+					assert.lengthOf(lines, 2);
+					assert.hasAllKeys(JSON.parse(lines[0]), ['id', 'value', 'pttl']);
+				});
+
+				it('Should import sessions under another prefix, preserving their TTL', async function () {
+					assert.deepEqual(await target.import(source.export({ includeTombstones: true })), {
+						imported: 3,
+						skipped: 0,
+					});
+
+					assert.deepInclude((await target.get('a')) as object, { n: 0 });
+					assert.isNull(await target.get('c'));
+					assert.isAbove(await redisClient.pTTL('restored:b'), 0);
+				});
+
+				it('Should skip or overwrite existing sessions', async function () {
+					await target.set('a', createFakeSession({ n: 5 }, 36e5));
+
+					assert.deepEqual(await target.import(source.export()), { imported: 1, skipped: 1 });
+					assert.deepInclude((await target.get('a')) as object, { n: 5 });
+
+					assert.deepEqual(await target.import(source.export(), { overwrite: true }), {
+						imported: 2,
+						skipped: 0,
+					});
+					assert.deepInclude((await target.get('a')) as object, { n: 0 });
+				});
+
+				it('Should rename the prefix of restored keys', async function () {
+					await source.import(source.export(), { prefix: 'renamed:' });
+					assert.isString(await redisClient.get('renamed:a'));
+				});
+
+				it('Should re-serialize sessions for another serializer and storage mode', async function () {
+					const base64: typeof serializer = {
+						parse: text => serializer.parse(Buffer.from(text, 'base64').toString()),
+						stringify: value => Buffer.from(serializer.stringify(value)).toString('base64'),
+					};
+					const encoded = new RedisStoreAdapter({
+						client: redisClient,
+						prefix: 'encoded:',
+						serializer: base64,
+					});
+					const hashes = new RedisStoreAdapter({ client: redisClient, prefix: 'hashes:', storage: 'hash' });
+					await encoded.set('d', createFakeSession({ n: 3 }, 36e5));
+
+					assert.deepEqual(await hashes.import(encoded.export(), { serializer: base64 }), {
+						imported: 1,
+						skipped: 0,
+					});
+					assert.deepInclude((await hashes.get('d')) as object, { n: 3 });
+					assert.strictEqual(await redisClient.hGet('hashes:d', 'n'), '3');
+				});
+
+				it('Should reject invalid records', async function () {
+					try {
+						await target.import(Readable.from(['\n{"id":"a","value":1,"pttl":-1}\n']));
+						assert.fail('expected an error');
+					} catch (error) {
+						assert.strictEqual((error as Error).message, 'Invalid session record on line 2');
+					}
+				});
+			});
+
+			describe('Suite: legacy migration', function () {
+				const legacySession = (n: number) =>
+					JSON.stringify({
+						cookie: {
+							originalMaxAge: 36e5,
+							expires: new Date(36e5).toISOString(),
+							httpOnly: true,
+							path: '/',
+						},
+						n,
+					});
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+					await redisClient.set('sess:1234', legacySession(1));
+					await redisClient.set('sess:2345', legacySession(2));
+				});
+
+				it('Should migrate legacy sessions when they are read', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, legacy: true });
+
+					const sessionData = (await access.get('1234')) as session.SessionData;
+					assert.deepInclude(sessionData as object, { n: 1 });
+					assert.strictEqual(sessionData.cookie.expires?.getTime(), 36e5);
+					assert.isString(await redisClient.get(access.key('1234')));
+					assert.isString(await redisClient.get('sess:1234'));
+
+					assert.isNull(await access.get('3456'));
+				});
+
+				it('Should delete migrated legacy sessions', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, legacy: { deleteMigrated: true } });
+
+					assert.deepInclude((await access.get('1234')) as object, { n: 1 });
+					assert.isNull(await redisClient.get('sess:1234'));
+				});
+
+				it('Should not migrate destroyed sessions again', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, legacy: true });
+					await access.get('1234');
+
+					assert.isTrue(await access.destroy('1234'));
+					assert.isNull(await redisClient.get('sess:1234'));
+					assert.isNull(await access.get('1234'));
+				});
+
+				it('Should not migrate sessions destroyed for their user again', async function () {
+					const access = new RedisStoreAdapter({
+						client: redisClient,
+						legacy: true,
+						getUserId: sessionData => String((sessionData as { n?: number }).n),
+					});
+					await access.get('1234');
+
+					assert.strictEqual(await access.destroyAllForUser('1'), 1);
+					// The tombstone expired
+					await redisClient.del(access.key('1234'));
+					assert.isNull(await access.get('1234'));
+				});
+
+				it('Should not migrate rotated sessions again', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, legacy: true });
+					await access.get('1234');
+
+					assert.strictEqual(await access.rotate('1234', '5678'), '5678');
+					await redisClient.del(access.key('1234'));
+					assert.isNull(await access.get('1234'));
+					assert.deepInclude((await access.get('5678')) as object, { n: 1 });
+				});
+
+				it('Should not migrate cleared sessions again', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, legacy: true });
+					await access.get('1234');
+					await access.get('2345');
+
+					assert.strictEqual(await access.clear(), 2);
+					await redisClient.del([access.key('1234'), access.key('2345')]);
+					assert.isNull(await access.get('1234'));
+					assert.isNull(await access.get('2345'));
+				});
+
+				it('Should migrate every legacy session', async function () {
+					const access = new RedisStoreAdapter({
+						client: redisClient,
+						legacy: { prefix: 'sess:' },
+						scanCount: 1,
+					});
+					await access.set('2345', createFakeSession({ n: 5 }, 36e5));
+					await redisClient.set('sess:3456', 'foo');
+
+					assert.deepEqual(await access.migrateLegacy(), { migrated: 1, skipped: 2 });
+					assert.deepInclude((await access.get('1234')) as object, { n: 1 });
+					assert.deepInclude((await access.get('2345')) as object, { n: 5 });
+					assert.isNull(await access.get('3456'));
+				});
+
+				it('Should require distinct prefixes', function () {
+					assert.throws(
+						() => new RedisStoreAdapter({ client: redisClient, prefix: 'sess:', legacy: true }),
+						'The prefix of the legacy store must differ from the prefix of the store',
+					);
+				});
+
+				it('Should require the legacy store to migrate every legacy session', async function () {
+					try {
+						await new RedisStoreAdapter({ client: redisClient }).migrateLegacy();
+						assert.fail('expected an error');
+					} catch (error) {
+						assert.strictEqual(
+							(error as Error).message,
+							'Migrating legacy sessions requires the `legacy` option',
+						);
+					}
+				});
+			});
+
+			describe('Suite: reserialize', function () {
+				let keys: Record<'a' | 'b', Buffer>;
+
+				before('configure encryption keys', function () {
+					keys = { a: randomBytes(32), b: randomBytes(32) };
+				});
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				it('Should re-encrypt sessions with the active key', async function () {
+					const previous = new RedisStoreAdapter({
+						client: redisClient,
+						serializer: createEncryptedSerializer({ keys, activeKeyId: 'a' }),
+					});
+					await previous.set('1234', createFakeSession({ user: { id: 'abcd' } }, 36e5));
+					await previous.set('2345', createFakeSession({ user: { id: 'bcde' } }, 36e5));
+					await previous.destroy('2345');
+
+					const encrypted = createEncryptedSerializer({ keys, activeKeyId: 'b' });
+					const access = new RedisStoreAdapter({ client: redisClient, serializer: encrypted });
+					const result = await access.reserialize(stored => !encrypted.isCurrent(stored as string));
+					assert.strictEqual(result, 1);
+
+					const value = (await redisClient.get(access.key('1234'))) as string;
+					assert.isTrue(encrypted.isCurrent(value));
+					assert.closeTo(await redisClient.ttl(access.key('1234')), 36e2, 5);
+					assert.deepInclude((await access.get('1234')) as object, { user: { id: 'abcd' } });
+					assert.match((await redisClient.get(access.key('2345'))) as string, /^TOMBSTONE/);
+
+					assert.strictEqual(await access.reserialize(stored => !encrypted.isCurrent(stored as string)), 0);
+				});
+
+				it('Should re-serialize sessions in the hash storage mode', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, storage: 'hash' });
+					await access.set('1234', createFakeSession({ user: { id: 'abcd' } }, 36e5));
+					await redisClient.hSet(access.key('1234'), 'foo', '{ "bar" : 1 }');
+
+					const result = await access.reserialize();
+					assert.strictEqual(result, 1);
+					assert.strictEqual(await redisClient.hGet(access.key('1234'), 'foo'), '{"bar":1}');
+					assert.closeTo(await redisClient.ttl(access.key('1234')), 36e2, 5);
+				});
+			});
+
+			describe('Suite: migrations', function () {
+				let migrations: SessionMigration[];
+
+				before('configure migrations', function () {
+					migrations = [
+						sessionData => {
+							const { userId, ...rest } = sessionData as unknown as { userId: string };
+							return { ...rest, user: { id: userId } } as unknown as session.SessionData;
+						},
+					];
+				});
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				it('Should upgrade outdated sessions on read', async function () {
+					const previous = new RedisStoreAdapter({ client: redisClient });
+					await previous.set('1234', createFakeSession({ userId: 'abcd' }, 36e5));
+
+					const access = new RedisStoreAdapter({ client: redisClient, migrations });
+					assert.deepInclude((await access.get('1234')) as object, {
+						user: { id: 'abcd' },
+						schemaVersion: 1,
+					});
+					assert.deepInclude((await access.all())['1234'] as object, {
+						user: { id: 'abcd' },
+						schemaVersion: 1,
+					});
+					assert.notProperty(serializer.parse((await redisClient.get(access.key('1234'))) as string), 'user');
+
+					await access.set('2345', createFakeSession({ user: { id: 'bcde' } }, 36e5));
+					assert.deepInclude(
+						serializer.parse((await redisClient.get(access.key('2345'))) as string) as object,
+						{
+							schemaVersion: 1,
+						},
+					);
+				});
+
+				it('Should write upgraded sessions back on read', async function () {
+					const previous = new RedisStoreAdapter({ client: redisClient, storage: 'hash' });
+					await previous.set('1234', createFakeSession({ userId: 'abcd' }, 36e5));
+
+					const access = new RedisStoreAdapter({
+						client: redisClient,
+						storage: 'hash',
+						migrations,
+						writeBackMigrations: true,
+					});
+					await access.get('1234');
+
+					const fields = await redisClient.hGetAll(access.key('1234'));
+					assert.deepInclude(fields, { user: '{"id":"abcd"}', schemaVersion: '1' });
+					assert.notProperty(fields, 'userId');
+					assert.closeTo(await redisClient.ttl(access.key('1234')), 36e2, 5);
+				});
+
+				it('Should upgrade all outdated sessions', async function () {
+					const previous = new RedisStoreAdapter({ client: redisClient });
+					await previous.set('1234', createFakeSession({ userId: 'abcd' }, 36e5));
+					await previous.set('2345', createFakeSession({ userId: 'bcde' }, 36e5));
+
+					const access = new RedisStoreAdapter({ client: redisClient, migrations });
+					await access.set('3456', createFakeSession({ user: { id: 'cdef' } }, 36e5));
+					assert.strictEqual(await access.migrate(), 2);
+
+					const value = serializer.parse((await redisClient.get(access.key('2345'))) as string);
+					assert.deepInclude(value as object, { user: { id: 'bcde' }, schemaVersion: 1 });
+					assert.closeTo(await redisClient.ttl(access.key('2345')), 36e2, 5);
+
+					assert.strictEqual(await access.migrate(), 0);
+				});
+			});
+
+			describe('Suite: max lifetime', function () {
+				let access: RedisStoreAdapter;
+
+				before('create Redis store adapter', function () {
+					access = new RedisStoreAdapter({ client: redisClient, maxLifetimeSeconds: 36e2 });
+				});
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+					mockDate.update(0);
+				});
+
+				after('reset the mock date', function () {
+					mockDate.update(0);
+				});
+
+				it('Should record the creation time of new sessions', async function () {
+					const result = await access.set(sid, createFakeSession({}, 72e5));
+					assert.deepInclude(result as object, { createdAt: new Date(0) });
+
+					mockDate.update(6e5);
+					const updated = await access.set(sid, (await access.get(sid)) as session.SessionData);
+					assert.deepInclude(updated as object, { createdAt: new Date(0) });
+				});
+
+				it('Should clamp the TTL to the remaining lifetime', async function () {
+					await access.set(sid, createFakeSession({}, 72e5));
+					assert.closeTo(await redisClient.ttl(access.key(sid)), 36e2, 5);
+
+					mockDate.update(6e5);
+					const sessionData = (await access.get(sid)) as session.SessionData;
+					await access.set(sid, {
+						...sessionData,
+						cookie: { ...sessionData.cookie, expires: new Date(78e5) },
+					});
+					assert.closeTo(await redisClient.ttl(access.key(sid)), 30e2, 5);
+				});
+
+				it('Should clamp the renewal of a touch to the remaining lifetime', async function () {
+					await access.set(sid, createFakeSession({}, 12e5));
+
+					mockDate.update(30e5);
+					assert.deepEqual(await access.touch(sid, 12e2), new Date(6e5));
+					assert.closeTo(await redisClient.ttl(access.key(sid)), 6e2, 5);
+
+					const sessionData = (await access.get(sid)) as session.SessionData;
+					assert.deepEqual(
+						await access.touch(sid, {
+							...sessionData,
+							cookie: { ...sessionData.cookie, expires: new Date(42e5) },
+						}),
+						new Date(6e5),
+					);
+				});
+
+				it('Should destroy a session past its maximum lifetime', async function () {
+					await access.set(sid, createFakeSession({}, 72e5));
+					const sessionData = (await access.get(sid)) as session.SessionData;
+
+					mockDate.update(36e5);
+					assert.isNull(await access.touch(sid, 12e2));
+					assert.strictEqual(
+						await redisClient.get(access.key(sid)),
+						'TOMBSTONE{"destroyedAt":3600000,"reason":"lifetime"}',
+					);
+
+					await redisClient.set(access.key(sid), serializer.stringify(sessionData));
+					assert.isNull(await access.get(sid));
+					assert.isNull(await access.set(sid, sessionData));
+				});
+			});
+
+			describe('Suite: rotation', function () {
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				it('Should rotate the id of a session', async function () {
+					const access = new RedisStoreAdapter({
+						client: redisClient,
+						getUserId: sessionData => (sessionData as { user?: { id: string } }).user?.id,
+					});
+					await access.set('1234', createFakeSession({ user: { id: 'abcd' } }, 36e5));
+
+					const result = await access.rotate('1234', '2345');
+					assert.strictEqual(result, '2345');
+					assert.deepInclude((await access.get('2345')) as object, { user: { id: 'abcd' } });
+					assert.closeTo(await redisClient.ttl(access.key('2345')), 36e2, 5);
+					assert.deepEqual(Object.keys(await access.listForUser('abcd')), ['2345']);
+
+					assert.isNull(await access.get('1234'));
+					assert.isNull(await access.set('1234', createFakeSession({ user: { id: 'abcd' } }, 36e5)));
+					assert.strictEqual(await access.rotatedTo('1234'), '2345');
+					assert.closeTo(await redisClient.ttl(access.key('1234')), 300, 5);
+				});
+
+				it('Should rotate a session to a random id', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, storage: 'hash' });
+					await access.set('1234', createFakeSession({ user: { id: 'abcd' } }, 36e5));
+
+					const result = (await access.rotate('1234')) as string;
+					assert.match(result, /^[\w-]{32}$/);
+					assert.deepInclude((await access.get(result)) as object, { user: { id: 'abcd' } });
+					assert.strictEqual(await access.rotatedTo('1234'), result);
+					assert.isNull(await access.touch('1234', 36e2));
+				});
+
+				it('Should not rotate missing, destroyed or colliding sessions', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient });
+					assert.isNull(await access.rotate('1234'));
+
+					await access.set('1234', createFakeSession({}, 36e5));
+					await access.set('2345', createFakeSession({}, 36e5));
+					try {
+						await access.rotate('1234', '2345');
+						assert.fail();
+					} catch (error) {
+						assert.match((error as Error).message, /already exists/);
+					}
+
+					await access.destroy('1234');
+					assert.isNull(await access.rotate('1234'));
+					assert.isNull(await access.rotatedTo('1234'));
+				});
+			});
+
+			describe('Suite: inspection', function () {
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				afterEach('restore the mock date', function () {
+					mockDate.update(0);
+				});
+
+				it('Should inspect active and missing sessions', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient });
+					mockDate.update(1000);
+					await access.set('1234', createFakeSession({ n: 1 }, 36e5));
+
+					const inspection = await access.inspect('1234');
+					assert.strictEqual(inspection.state, 'active');
+					assert.closeTo(inspection.ttlMs as number, 36e5 - 1000, 5e3);
+					assert.closeTo((inspection.expiresAt as Date).getTime(), 36e5, 5e3);
+					assert.strictEqual(
+						inspection.bytes,
+						Buffer.byteLength((await redisClient.get(access.key('1234'))) as string),
+					);
+					assert.deepEqual(inspection.lastModified, new Date(1000));
+					assert.isNull(inspection.tombstone);
+
+					assert.deepEqual(await access.inspect('2345'), {
+						state: 'missing',
+						ttlMs: null,
+						expiresAt: null,
+						bytes: 0,
+						lastModified: null,
+						tombstone: null,
+					});
+				});
+
+				it('Should record the reason of destroyed sessions', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient, storage: 'hash' });
+					await access.set('1234', createFakeSession({ n: 1 }, 36e5));
+					await access.set('2345', createFakeSession({ n: 2 }, 36e5));
+
+					mockDate.update(2000);
+					await access.destroy('1234', true, 'password-reset');
+					await access.clear(true, { reason: 'maintenance' });
+
+					const inspection = await access.inspect('1234');
+					assert.strictEqual(inspection.state, 'tombstoned');
+					assert.closeTo(inspection.ttlMs as number, 300e3, 5e3);
+					assert.deepEqual(inspection.tombstone, {
+						destroyedAt: new Date(2000),
+						reason: 'password-reset',
+						rotatedTo: null,
+					});
+					assert.strictEqual((await access.inspect('2345')).tombstone?.reason, 'maintenance');
+				});
+
+				it('Should record the new id of rotated sessions', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient });
+					await access.set('1234', createFakeSession({ n: 1 }, 36e5));
+					await access.rotate('1234', '2345');
+
+					assert.include((await access.inspect('1234')).tombstone, { reason: 'rotated', rotatedTo: '2345' });
+				});
+
+				it('Should support the bare tombstones of previous versions', async function () {
+					const access = new RedisStoreAdapter({ client: redisClient });
+					await redisClient.set(access.key('1234'), 'TOMBSTONE', { EX: 300 });
+					await redisClient.set(access.key('2345'), 'TOMBSTONE:3456', { EX: 300 });
+
+					assert.isNull(await access.get('1234'));
+					assert.isNull(await access.set('1234', createFakeSession({ n: 1 }, 36e5)));
+					assert.isNull(await access.touch('1234', 36e2));
+					assert.deepEqual((await access.inspect('1234')).tombstone, {
+						destroyedAt: null,
+						reason: null,
+						rotatedTo: null,
+					});
+
+					assert.strictEqual(await access.rotatedTo('2345'), '3456');
+					assert.include((await access.inspect('2345')).tombstone, { reason: 'rotated', rotatedTo: '3456' });
+				});
+			});
+
+			describe('Suite: events', function () {
+				let access: RedisStoreAdapter;
+				let events: [string, unknown][];
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				beforeEach('create Redis store adapter and record events', function () {
+					access = new RedisStoreAdapter({
+						client: redisClient,
+						concurrencyGraceSeconds: 1,
+						expirationEvents: true,
+					});
+
+					events = [];
+					SESSION_EVENTS.forEach(name => access.on(name, event => events.push([name, event])));
+				});
+
+				it('Should emit session lifecycle events', async function () {
+					const sessionData = createFakeSession({ user: { id: 'abcd' } }, 36e5);
+					await access.set('1234', sessionData);
+					await access.set('1234', sessionData);
+					await access.touch('1234', 36e2);
+					await access.rotate('1234', '2345');
+					await access.destroy('2345');
+					await access.destroy('2345');
+					await access.set('3456', createFakeSession({}, 36e5));
+					await access.set('3456', createFakeSession({}, -1));
+
+					assert.deepEqual(
+						events.map(([name]) => name),
+						['created', 'updated', 'touched', 'rotated', 'destroyed', 'created', 'destroyed'],
+					);
+					assert.deepInclude(events[0][1] as object, { sessionId: '1234' });
+					assert.deepEqual(events[2][1], { sessionId: '1234', expires: new Date(36e5) });
+					assert.deepEqual(events[3][1], { sessionId: '1234', newId: '2345' });
+					assert.deepEqual(events[4][1], { sessionId: '2345', reason: 'destroy' });
+					assert.deepEqual(events[6][1], { sessionId: '3456', reason: 'expired' });
+				});
+
+				it('Should emit destroyed events when clearing sessions', async function () {
+					await access.set('1234', createFakeSession({}, 36e5));
+					await access.set('2345', createFakeSession({}, 36e5));
+					await access.destroy('2345');
+					events = [];
+
+					assert.strictEqual(await access.clear(), 2);
+					assert.deepEqual(events, [['destroyed', { sessionId: '1234', reason: 'clear' }]]);
+				});
+
+				it('Should only emit the failures of expired notifications to error listeners', async function () {
+					const adapter = new RedisStoreAdapter({ client: redisClient, expirationEvents: true });
+					const subscriber = new ExpirationSubscriber(adapter) as unknown as {
+						_onExpired: (key: string) => Promise<void>;
+					};
+					const zScore = sinon.stub(redisClient, 'zScore').rejects(new Error('foo'));
+
+					try {
+						await subscriber._onExpired(adapter.key('1234'));
+
+						const error = sinon.spy();
+						adapter.on('error', error);
+						await subscriber._onExpired(adapter.key('1234'));
+						assert.isTrue(error.calledOnce);
+						assert.strictEqual((error.firstCall.args[0] as Error).message, 'foo');
+					} finally {
+						zScore.restore();
+					}
+				});
+
+				it('Should check the tombstones of tenants', async function () {
+					const subscriber = new ExpirationSubscriber(access) as unknown as {
+						_onExpired: (key: string) => Promise<void>;
+					};
+					const tenant = access.tenant('acme');
+					await tenant.set('1234', createFakeSession({}, 36e5));
+					await tenant.destroy('1234');
+					events = [];
+
+					await subscriber._onExpired(tenant.key('1234'));
+					await subscriber._onExpired(tenant.key('2345'));
+					assert.deepEqual(events, [['expired', { sessionId: 'acme:2345' }]]);
+				});
+
+				it('Should emit expired events for expired sessions only', async function () {
+					this.timeout(5000);
+					await redisClient.configSet('notify-keyspace-events', 'Ex');
+
+					// Every store instance receives the notifications
+					const other = new RedisStoreAdapter({ client: redisClient, expirationEvents: true });
+					const expired: unknown[] = [];
+					other.on('expired', event => expired.push(event));
+
+					const subscribers = [new ExpirationSubscriber(access), new ExpirationSubscriber(other)];
+					await Promise.all(subscribers.map(subscriber => subscriber.start()));
+					try {
+						await access.set('1234', createFakeSession({}, 200));
+						await access.set('2345', createFakeSession({}, 36e5));
+						await access.destroy('2345');
+
+						await new Promise(resolve => {
+							setTimeout(resolve, 2500);
+						});
+						assert.deepEqual(
+							events.filter(([name]) => name === 'expired'),
+							[['expired', { sessionId: '1234' }]],
+						);
+						assert.deepEqual(expired, [{ sessionId: '1234' }]);
+					} finally {
+						await Promise.all(subscribers.map(subscriber => subscriber.stop()));
+						await redisClient.configSet('notify-keyspace-events', '');
+					}
+				});
+			});
+
+			describe('Suite: cache', function () {
+				let access: RedisStoreAdapter;
+				let other: RedisStoreAdapter;
+
+				const delay = () =>
+					new Promise(resolve => {
+						setTimeout(resolve, 100);
+					});
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+				});
+
+				afterEach('stop the caches', async function () {
+					await Promise.all([access.cache?.stop(), other.cache?.stop()]);
+				});
+
+				it('Should read cached sessions', async function () {
+					access = new RedisStoreAdapter({ client: redisClient, cache: true });
+					other = new RedisStoreAdapter({ client: redisClient });
+					await (access.cache as SessionCache).start();
+
+					await access.set(sid, createFakeSession({ n: 1 }, 36e5));
+					assert.deepInclude((await access.get(sid)) as object, { n: 1 });
+
+					// Writes bypassing the store are not published
+					await redisClient.set(access.key(sid), serializer.stringify(createFakeSession({ n: 2 }, 36e5)));
+					assert.deepInclude((await access.get(sid)) as object, { n: 1 });
+					assert.deepInclude((await other.get(sid)) as object, { n: 2 });
+				});
+
+				it('Should not cache sessions beyond the TTL of their key', async function () {
+					access = new RedisStoreAdapter({ client: redisClient, cache: true });
+					other = new RedisStoreAdapter({ client: redisClient });
+					await (access.cache as SessionCache).start();
+
+					await access.set(sid, createFakeSession({ n: 1 }));
+					await redisClient.pExpire(access.key(sid), 50);
+					assert.deepInclude((await access.get(sid)) as object, { n: 1 });
+
+					try {
+						await delay();
+						mockDate.update(100);
+						assert.isNull(await other.get(sid));
+						assert.isNull(await access.get(sid));
+					} finally {
+						mockDate.update(0);
+					}
+				});
+
+				it('Should invalidate cached sessions with pub/sub', async function () {
+					access = new RedisStoreAdapter({ client: redisClient, cache: { invalidation: 'pubsub' } });
+					other = new RedisStoreAdapter({ client: redisClient, cache: { invalidation: 'pubsub' } });
+					await Promise.all([(access.cache as SessionCache).start(), (other.cache as SessionCache).start()]);
+
+					await access.set(sid, createFakeSession({ n: 1 }, 36e5));
+					assert.deepInclude((await other.get(sid)) as object, { n: 1 });
+
+					await access.set(sid, createFakeSession({ n: 2 }, 36e5));
+					await delay();
+					assert.deepInclude((await other.get(sid)) as object, { n: 2 });
+
+					await access.destroy(sid);
+					await delay();
+					assert.isNull(await other.get(sid));
+				});
+
+				it('Should invalidate cached sessions once per batch when clearing sessions', async function () {
+					access = new RedisStoreAdapter({ client: redisClient, scanCount: 100, cache: true });
+					other = new RedisStoreAdapter({ client: redisClient, cache: true });
+					await Promise.all([(access.cache as SessionCache).start(), (other.cache as SessionCache).start()]);
+
+					await Promise.all(['a', 'b', 'c'].map(id => access.set(id, createFakeSession({}, 36e5))));
+					assert.isNotNull(await other.get('a'));
+
+					const publish = sinon.spy(redisClient, 'publish');
+					try {
+						assert.strictEqual(await access.clear(), 3);
+						assert.isTrue(publish.calledOnce);
+					} finally {
+						publish.restore();
+					}
+
+					await delay();
+					assert.isNull(await other.get('a'));
+				});
+
+				it('Should invalidate cached sessions with client tracking', async function () {
+					access = new RedisStoreAdapter({ client: redisClient, cache: { invalidation: 'tracking' } });
+					other = new RedisStoreAdapter({ client: redisClient });
+					await (access.cache as SessionCache).start();
+
+					await other.set(sid, createFakeSession({ n: 1 }, 36e5));
+					assert.deepInclude((await access.get(sid)) as object, { n: 1 });
+
+					await redisClient.set(access.key(sid), serializer.stringify(createFakeSession({ n: 2 }, 36e5)));
+					await delay();
+					assert.deepInclude((await access.get(sid)) as object, { n: 2 });
+
+					await other.destroy(sid);
+					await delay();
+					assert.isNull(await access.get(sid));
+				});
+			});
+
+			describe('Suite: instrumentation', function () {
+				let access: RedisStoreAdapter;
+				let contexts: OperationContext[];
+
+				beforeEach('reset the database', async function () {
+					await redisClient.flushDb();
+					contexts = [];
+				});
+
+				afterEach('stop the cache', async function () {
+					await access.cache?.stop();
+				});
+
+				it('Should report the outcome of operations', async function () {
+					access = new RedisStoreAdapter({
+						client: redisClient,
+						cache: true,
+						instrumentation: { end: context => contexts.push(context) },
+					});
+					await (access.cache as SessionCache).start();
+
+					await access.get(sid);
+					await access.set(sid, createFakeSession({ n: 1 }, 36e5));
+					await access.get(sid);
+					await access.get(sid);
+					await access.touch(sid, 60);
+					await access.destroy(sid);
+					await access.set(sid, createFakeSession({ n: 2 }, 36e5));
+					await access.set(sid, createFakeSession({ n: 2 }, -1));
+
+					assert.deepEqual(
+						contexts.map(({ operation, outcome }) => `${operation}:${outcome as string}`),
+						[
+							'get:missing',
+							'set:written',
+							'get:found',
+							'get:hit',
+							'touch:touched',
+							'destroy:destroyed',
+							'set:tombstoned',
+							'set:expired',
+						],
+					);
+					assert.strictEqual(contexts[1].keyCount, 1);
+					assert.isAbove(contexts[1].payloadBytes, 0);
+					assert.strictEqual(contexts[2].payloadBytes, contexts[1].payloadBytes);
+					assert.strictEqual(contexts[1].sessionIdHash, hashSessionId(sid));
+				});
+
+				it('Should report the number of keys processed by multi-key operations', async function () {
+					access = new RedisStoreAdapter({
+						client: redisClient,
+						instrumentation: { end: context => contexts.push(context) },
+					});
+
+					await access.set('a', createFakeSession({}, 36e5));
+					await access.set('b', createFakeSession({}, 36e5));
+					await access.all();
+					await access.clear();
+
+					const [all, clear] = contexts.slice(-2);
+					assert.include(all, { operation: 'all', keyCount: 2, outcome: 'ok' });
+					assert.isAbove(all.payloadBytes, 0);
+					assert.include(clear, { operation: 'clear', keyCount: 2, outcome: 'ok' });
+					assert.isUndefined(clear.sessionIdHash);
+				});
+
+				it('Should report failed operations', async function () {
+					const error = sinon.spy();
+					access = new RedisStoreAdapter({
+						client: redisClient,
+						serializer: { ...serializer, stringify: () => assert.fail('foo') },
+						instrumentation: { error },
+					});
+
+					try {
+						await access.set(sid, createFakeSession({}, 36e5));
+						assert.fail('expected an error');
+					} catch (e) {
+						assert.isTrue(error.calledOnceWith(sinon.match({ operation: 'set', outcome: 'error' }), e));
+					}
+				});
+			});
+
 			describe('Suite: edges', function () {
 				let access: RedisStoreAdapter;
 				let session: session.SessionData;
@@ -0,0 +1,168 @@
+import { assert } from 'chai';
+import * as sinon from 'sinon';
+import {
+	createMetricsInstrumentation,
+	createTracerInstrumentation,
+	hashSessionId,
+	instrument,
+	OperationContext,
+	TracerSpan,
+} from '../lib/instrumentation';
+
+/* eslint-disable func-names */
+describe('instrumentation:', function () {
+	describe('instrument', function () {
+		it('Should call the start and end hooks', async function () {
+			const start = sinon.spy();
+			const end = sinon.spy();
+
+			const result = await instrument({ start, end }, 'get', 'foo', context => {
+				context.keyCount = 1;
+				context.payloadBytes = 3;
+				context.outcome = 'found';
+				return Promise.resolve('bar');
+			});
+
+			assert.strictEqual(result, 'bar');
+			assert.isTrue(start.calledOnce);
+			assert.isTrue(end.calledOnce);
+
+			const context = end.firstCall.args[0] as OperationContext;
+			assert.strictEqual(context.operation, 'get');
+			assert.strictEqual(context.sessionIdHash, hashSessionId('foo'));
+			assert.notInclude(context.sessionIdHash, 'foo');
+			assert.strictEqual(context.keyCount, 1);
+			assert.strictEqual(context.payloadBytes, 3);
+			assert.strictEqual(context.outcome, 'found');
+			assert.isAtLeast(context.duration as number, 0);
+		});
+
+		it('Should default the outcome of multi-key operations', async function () {
+			const end = sinon.spy();
+			await instrument({ end }, 'all', null, () => Promise.resolve({}));
+
+			const context = end.firstCall.args[0] as OperationContext;
+			assert.isUndefined(context.sessionIdHash);
+			assert.strictEqual(context.outcome, 'ok');
+		});
+
+		it('Should call the error hook', async function () {
+			const end = sinon.spy();
+			const error = sinon.spy();
+
+			try {
+				await instrument({ end, error }, 'set', 'foo', () => Promise.reject(new Error('foo')));
+				assert.fail('expected an error');
+			} catch (e) {
+				assert.strictEqual((e as Error).message, 'foo');
+			}
+
+			assert.isTrue(end.notCalled);
+			assert.isTrue(error.calledOnce);
+			assert.strictEqual((error.firstCall.args[0] as OperationContext).outcome, 'error');
+			assert.strictEqual((error.firstCall.args[1] as Error).message, 'foo');
+		});
+
+		it('Should not call the hooks twice if the end hook fails', async function () {
+			const error = sinon.spy();
+			const fn = sinon.fake.resolves(null);
+
+			try {
+				await instrument(
+					{
+						end: () => {
+							throw new Error('foo');
+						},
+						error,
+					},
+					'get',
+					'foo',
+					fn,
+				);
+				assert.fail('expected an error');
+			} catch (e) {
+				assert.strictEqual((e as Error).message, 'foo');
+			}
+
+			assert.isTrue(fn.calledOnce);
+			assert.isTrue(error.notCalled);
+		});
+	});
+
+	describe('createTracerInstrumentation', function () {
+		const createSpan = () => ({
+			setAttribute: sinon.spy(),
+			setStatus: sinon.spy(),
+			recordException: sinon.spy(),
+			end: sinon.spy(),
+		});
+
+		it('Should record a span for each operation', async function () {
+			const span = createSpan();
+			const startSpan = sinon.fake.returns(span as TracerSpan);
+			const instrumentation = createTracerInstrumentation({ startSpan });
+
+			await instrument(instrumentation, 'destroy', 'foo', context => {
+				context.keyCount = 1;
+				context.outcome = 'destroyed';
+				return Promise.resolve(true);
+			});
+
+			assert.strictEqual(startSpan.firstCall.args[0], 'session.destroy');
+			assert.deepEqual(startSpan.firstCall.args[1], {
+				attributes: { 'session.operation': 'destroy', 'session.id_hash': hashSessionId('foo') },
+			});
+			assert.isTrue(span.setAttribute.calledWith('session.key_count', 1));
+			assert.isTrue(span.setAttribute.calledWith('session.outcome', 'destroyed'));
+			assert.isTrue(span.setStatus.calledWith({ code: 1 }));
+			assert.isTrue(span.end.calledOnce);
+		});
+
+		it('Should record exceptions', async function () {
+			const span = createSpan();
+			const instrumentation = createTracerInstrumentation({ startSpan: () => span });
+
+			try {
+				await instrument(instrumentation, 'touch', 'foo', () => Promise.reject(new Error('foo')));
+				assert.fail('expected an error');
+			} catch (e) {
+				assert.isTrue(span.recordException.calledWith(e));
+			}
+
+			assert.isTrue(span.setAttribute.calledWith('session.outcome', 'error'));
+			assert.isTrue(span.setStatus.calledWith({ code: 2, message: 'foo' }));
+			assert.isTrue(span.end.calledOnce);
+		});
+	});
+
+	describe('createMetricsInstrumentation', function () {
+		it('Should record metrics for each operation', async function () {
+			const duration = { observe: sinon.spy() };
+			const operations = { inc: sinon.spy() };
+			const keys = { inc: sinon.spy() };
+			const payloadBytes = { inc: sinon.spy() };
+			const instrumentation = createMetricsInstrumentation({ duration, operations, keys, payloadBytes });
+
+			await instrument(instrumentation, 'set', 'foo', context => {
+				context.keyCount = 2;
+				context.payloadBytes = 10;
+				context.outcome = 'written';
+				return Promise.resolve();
+			});
+			await instrument(instrumentation, 'get', 'foo', context => {
+				context.keyCount = 1;
+				context.outcome = 'missing';
+				return Promise.resolve();
+			});
+
+			const labels = { operation: 'set', outcome: 'written' };
+			assert.strictEqual(duration.observe.callCount, 2);
+			assert.deepEqual(duration.observe.firstCall.args[0], labels);
+			assert.isBelow(duration.observe.firstCall.args[1] as number, 1);
+			assert.deepEqual(operations.inc.secondCall.args, [{ operation: 'get', outcome: 'missing' }]);
+			assert.deepEqual(keys.inc.firstCall.args, [labels, 2]);
+			assert.isTrue(payloadBytes.inc.calledOnceWith(labels, 10));
+		});
+	});
+});
+/* eslint-enable func-names */
@@ -0,0 +1,26 @@
+import { assert } from 'chai';
+import { legacySerializer } from '../lib/legacy';
+
+/* eslint-disable func-names */
+describe('legacy:', function () {
+	describe('legacySerializer', function () {
+		it('Should parse sessions stored by connect-redis', function () {
+			const text = JSON.stringify({
+				cookie: { originalMaxAge: 1000, expires: '1970-01-01T00:00:01.000Z', httpOnly: true, path: '/' },
+				user: { id: 'abcd' },
+			});
+
+			const sessionData = legacySerializer.parse(text);
+			assert.instanceOf(sessionData.cookie.expires, Date);
+			assert.strictEqual(sessionData.cookie.expires?.getTime(), 1000);
+			assert.deepInclude(sessionData as object, { user: { id: 'abcd' } });
+			assert.strictEqual(legacySerializer.stringify(sessionData), text);
+		});
+
+		it('Should parse session cookies without expiration', function () {
+			const sessionData = legacySerializer.parse('{"cookie":{"originalMaxAge":null,"expires":null}}');
+			assert.isUndefined(sessionData.cookie.expires);
+		});
+	});
+});
+/* eslint-enable func-names */
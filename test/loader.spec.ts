@@ -0,0 +1,69 @@
+import { assert } from 'chai';
+import * as sinon from 'sinon';
+import { BatchLoader } from '../lib/loader';
+
+/* eslint-disable func-names */
+describe('loader:', function () {
+	describe('BatchLoader', function () {
+		it('Should load the keys of the same iteration in a single batch', async function () {
+			const loadBatch = sinon.fake((keys: string[]) => Promise.resolve(keys.map(key => key.toUpperCase())));
+			const loader = new BatchLoader(loadBatch);
+
+			const values = await Promise.all([loader.load('a'), loader.load('b'), loader.load('a')]);
+			assert.deepEqual(values, ['A', 'B', 'A']);
+			assert.isTrue(loadBatch.calledOnce);
+			assert.deepEqual(loadBatch.firstCall.args[0], ['a', 'b']);
+
+			assert.strictEqual(await loader.load('c'), 'C');
+			assert.isTrue(loadBatch.calledTwice);
+		});
+
+		it('Should split batches exceeding the maximum batch size', async function () {
+			const loadBatch = sinon.fake((keys: number[]) => Promise.resolve(keys.map(key => key * 2)));
+			const loader = new BatchLoader(loadBatch, { maxBatchSize: 2 });
+
+			const values = await Promise.all([1, 2, 3, 4, 5].map(key => loader.load(key)));
+			assert.deepEqual(values, [2, 4, 6, 8, 10]);
+			assert.deepEqual(
+				loadBatch.getCalls().map(call => call.args[0]),
+				[[1, 2], [3, 4], [5]],
+			);
+		});
+
+		it('Should identify keys with a custom function', async function () {
+			const loadBatch = sinon.fake((keys: { id: string }[]) => Promise.resolve(keys.map(({ id }) => id)));
+			const loader = new BatchLoader(loadBatch, { keyOf: ({ id }) => id });
+
+			await Promise.all([loader.load({ id: 'a' }), loader.load({ id: 'a' })]);
+			assert.lengthOf(loadBatch.firstCall.args[0], 1);
+		});
+
+		it('Should reject the loads of failed keys', async function () {
+			const loader = new BatchLoader((keys: string[]) =>
+				Promise.resolve(keys.map(key => (key === 'b' ? new Error('foo') : key))),
+			);
+
+			const [a, b] = await Promise.all([
+				loader.load('a'),
+				loader.load('b').then(
+					() => assert.fail('expected an error'),
+					(error: Error) => error.message,
+				),
+			]);
+			assert.strictEqual(a, 'a');
+			assert.strictEqual(b, 'foo');
+		});
+
+		it('Should reject every load of a failed batch', async function () {
+			const loader = new BatchLoader<string, string>(() => Promise.reject(new Error('foo')));
+
+			try {
+				await Promise.all([loader.load('a'), loader.load('b')]);
+				assert.fail('expected an error');
+			} catch (error) {
+				assert.strictEqual((error as Error).message, 'foo');
+			}
+		});
+	});
+});
+/* eslint-enable func-names */
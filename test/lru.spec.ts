@@ -0,0 +1,67 @@
+import { assert } from 'chai';
+import { LruCache } from '../lib/lru';
+
+/* eslint-disable func-names */
+describe('lru:', function () {
+	describe('LruCache', function () {
+		let cache: LruCache<string>;
+
+		beforeEach('create cache', function () {
+			cache = new LruCache(3, 10);
+		});
+
+		it('Should get and delete entries', function () {
+			cache.set('a', 'foo', 3);
+			assert.strictEqual(cache.get('a'), 'foo');
+			assert.strictEqual(cache.size, 3);
+
+			assert.isTrue(cache.delete('a'));
+			assert.isUndefined(cache.get('a'));
+			assert.strictEqual(cache.size, 0);
+		});
+
+		it('Should evict the least recently used entries beyond the number of entries', function () {
+			cache.set('a', 'foo', 1);
+			cache.set('b', 'bar', 1);
+			cache.set('c', 'baz', 1);
+			cache.get('a');
+			cache.set('d', 'qux', 1);
+
+			assert.strictEqual(cache.length, 3);
+			assert.isUndefined(cache.get('b'));
+			assert.strictEqual(cache.get('a'), 'foo');
+		});
+
+		it('Should evict the least recently used entries beyond the total size', function () {
+			cache.set('a', 'foo', 4);
+			cache.set('b', 'bar', 4);
+			cache.set('c', 'baz', 4);
+
+			assert.strictEqual(cache.length, 2);
+			assert.strictEqual(cache.size, 8);
+			assert.isUndefined(cache.get('a'));
+
+			cache.set('d', 'qux', 11);
+			assert.isUndefined(cache.get('d'));
+			assert.strictEqual(cache.length, 2);
+		});
+
+		it('Should expire entries', function () {
+			cache.set('a', 'foo', 1, -1);
+			cache.set('b', 'bar', 1, 1e3);
+
+			assert.isUndefined(cache.get('a'));
+			assert.strictEqual(cache.get('b'), 'bar');
+		});
+
+		it('Should clear all entries', function () {
+			cache.set('a', 'foo', 1);
+			cache.set('b', 'bar', 1);
+			cache.clear();
+
+			assert.strictEqual(cache.length, 0);
+			assert.strictEqual(cache.size, 0);
+		});
+	});
+});
+/* eslint-enable func-names */
@@ -0,0 +1,93 @@
+import { assert } from 'chai';
+import session from 'express-session';
+import {
+	lastWriterWins,
+	MergeContext,
+	resolveMergeStrategy,
+	shallowMergeChangedKeys,
+	threeWayMerge,
+} from '../lib/merge';
+
+const createFakeSession = (data: object, lastModified?: number) => {
+	return {
+		...data,
+		cookie: {
+			originalMaxAge: 0,
+		},
+		lastModified: lastModified === undefined ? undefined : new Date(lastModified),
+	} as unknown as session.SessionData;
+};
+
+/* eslint-disable func-names */
+describe('merge:', function () {
+	let context: MergeContext;
+
+	beforeEach('configure session versions', function () {
+		context = {
+			base: createFakeSession({ a: 1, b: { x: 1, y: 1 }, c: 'foo' }, 0),
+			local: createFakeSession({ a: 2, b: { x: 2, y: 1 }, c: 'foo' }, 0),
+			remote: createFakeSession({ a: 1, b: { x: 1, y: 2 }, d: true }, 1),
+		};
+	});
+
+	describe('lastWriterWins', function () {
+		it('Should keep the local version', function () {
+			assert.strictEqual(lastWriterWins(context), context.local);
+		});
+	});
+
+	describe('shallowMergeChangedKeys', function () {
+		it('Should apply the changed top-level keys onto the remote version', function () {
+			const result = shallowMergeChangedKeys(context);
+			assert.deepInclude(result as object, { a: 2, b: { x: 2, y: 1 }, d: true });
+			assert.notProperty(result, 'c');
+		});
+
+		it('Should apply deleted top-level keys onto the remote version', function () {
+			const result = shallowMergeChangedKeys({ ...context, local: createFakeSession({ b: { x: 1, y: 1 } }) });
+			assert.deepInclude(result as object, { b: { x: 1, y: 2 }, d: true });
+			assert.notProperty(result, 'a');
+		});
+
+		it('Should fall back to the local version without a base', function () {
+			const result = shallowMergeChangedKeys({ ...context, base: null });
+			assert.strictEqual(result, context.local);
+		});
+	});
+
+	describe('threeWayMerge', function () {
+		it('Should merge the nested changes of both versions', function () {
+			const result = threeWayMerge(context);
+			assert.deepInclude(result as object, { a: 2, b: { x: 2, y: 2 }, d: true });
+			assert.notProperty(result, 'c');
+		});
+
+		it('Should resolve values changed by both versions in favor of the local version', function () {
+			const result = threeWayMerge({ ...context, remote: createFakeSession({ a: 3, b: { x: 3, y: 1 } }, 1) });
+			assert.deepInclude(result as object, { a: 2, b: { x: 2, y: 1 } });
+		});
+
+		it('Should fall back to the local version without a base', function () {
+			const result = threeWayMerge({ ...context, base: null });
+			assert.strictEqual(result, context.local);
+		});
+	});
+
+	describe('resolveMergeStrategy', function () {
+		it('Should resolve built-in strategies', function () {
+			assert.strictEqual(resolveMergeStrategy('last-writer-wins'), lastWriterWins);
+			assert.strictEqual(resolveMergeStrategy('shallow-merge-changed-keys'), shallowMergeChangedKeys);
+			assert.strictEqual(resolveMergeStrategy('three-way'), threeWayMerge);
+		});
+
+		it('Should resolve custom merge functions', function () {
+			const merge = ({ remote }: MergeContext) => remote;
+			assert.strictEqual(resolveMergeStrategy(merge), merge);
+		});
+
+		it('Should raise an exception for unknown strategies', function () {
+			assert.throw(() => resolveMergeStrategy('unknown' as 'three-way'), Error);
+		});
+	});
+});
+/* eslint-enable func-names */
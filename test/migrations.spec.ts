@@ -0,0 +1,57 @@
+import { assert } from 'chai';
+import session from 'express-session';
+import { migrateSession, SessionMigration } from '../lib/migrations';
+
+const createFakeSession = (data: object, schemaVersion?: number) => {
+	return {
+		...data,
+		cookie: {
+			originalMaxAge: 0,
+		},
+		schemaVersion,
+	} as unknown as session.SessionData;
+};
+
+/* eslint-disable func-names */
+describe('migrations:', function () {
+	let migrations: SessionMigration[];
+
+	beforeEach('configure migrations', function () {
+		migrations = [
+			// v0 -> v1: rename `userId` to `user.id`
+			sessionData => {
+				const { userId, ...rest } = sessionData as unknown as { userId: string };
+				return { ...rest, user: { id: userId } } as unknown as session.SessionData;
+			},
+			// v1 -> v2: add `roles`
+			sessionData => ({ ...sessionData, roles: [] } as session.SessionData),
+		];
+	});
+
+	describe('migrateSession', function () {
+		it('Should apply all migrations to unversioned sessions', function () {
+			const result = migrateSession(createFakeSession({ userId: 'abcd' }), migrations);
+
+			assert.deepEqual(result, createFakeSession({ user: { id: 'abcd' }, roles: [] }, 2));
+		});
+
+		it('Should only apply the migrations following the session version', function () {
+			const result = migrateSession(createFakeSession({ user: { id: 'abcd' } }, 1), migrations);
+
+			assert.deepEqual(result, createFakeSession({ user: { id: 'abcd' }, roles: [] }, 2));
+		});
+
+		it('Should return up-to-date sessions as is', function () {
+			const sessionData = createFakeSession({ user: { id: 'abcd' }, roles: [] }, 2);
+
+			assert.strictEqual(migrateSession(sessionData, migrations), sessionData);
+		});
+
+		it('Should return sessions with a newer version as is', function () {
+			const sessionData = createFakeSession({ user: { id: 'abcd' }, roles: [], groups: [] }, 3);
+
+			assert.strictEqual(migrateSession(sessionData, migrations), sessionData);
+		});
+	});
+});
+/* eslint-enable func-names */
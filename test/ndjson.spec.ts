@@ -0,0 +1,37 @@
+import { assert } from 'chai';
+import { Readable } from 'stream';
+import { readLines, toLines } from '../lib/ndjson';
+
+const collect = async <T>(iterator: AsyncIterable<T>) => {
+	const values: T[] = [];
+	// eslint-disable-next-line no-restricted-syntax
+	for await (const value of iterator) {
+		values.push(value);
+	}
+	return values;
+};
+
+/* eslint-disable func-names */
+describe('ndjson:', function () {
+	describe('readLines', function () {
+		it('Should split chunks into lines', async function () {
+			const lines = await collect(readLines(Readable.from(['{"a":', '1}\n{"b":2}\r\n', '\n{"c":3}'])));
+			assert.deepEqual(lines, ['{"a":1}', '{"b":2}', '', '{"c":3}']);
+		});
+
+		it('Should decode multi-byte characters split across buffers', async function () {
+			const bytes = Buffer.from('"é"\n"€"\n');
+			const chunks = [bytes.subarray(0, 2), bytes.subarray(2, 7), bytes.subarray(7)];
+
+			assert.deepEqual(await collect(readLines(Readable.from(chunks))), ['"é"', '"€"']);
+		});
+	});
+
+	describe('toLines', function () {
+		it('Should encode values as lines', async function () {
+			const lines = await collect(toLines(Readable.from([{ a: 1 }, 'b'])));
+			assert.deepEqual(lines, ['{"a":1}\n', '"b"\n']);
+		});
+	});
+});
+/* eslint-enable func-names */
@@ -0,0 +1,108 @@
+import { assert } from 'chai';
+import * as sinon from 'sinon';
+import { StoreTimeoutError } from '../lib/errors';
+import { backoffDelay, CircuitBreaker, resolveTimeout, withTimeout } from '../lib/resilience';
+
+/* eslint-disable func-names */
+describe('resilience:', function () {
+	describe('CircuitBreaker', function () {
+		let clock: sinon.SinonFakeTimers;
+		let breaker: CircuitBreaker;
+		let states: string[];
+
+		beforeEach('create the breaker', function () {
+			clock = sinon.useFakeTimers();
+			breaker = new CircuitBreaker(2, 1000);
+			states = [];
+			breaker.on('state', ({ state }: { state: string }) => states.push(state));
+		});
+
+		afterEach('restore the clock', function () {
+			clock.restore();
+		});
+
+		it('Should open after consecutive failures', function () {
+			breaker.failure();
+			breaker.success();
+			breaker.failure();
+			assert.strictEqual(breaker.state, 'closed');
+
+			breaker.failure();
+			assert.strictEqual(breaker.state, 'open');
+			assert.isFalse(breaker.allow());
+			assert.deepEqual(states, ['open']);
+		});
+
+		it('Should let a single probe through once the reset timeout elapsed', function () {
+			breaker.failure();
+			breaker.failure();
+
+			clock.tick(1000);
+			assert.isTrue(breaker.allow());
+			assert.strictEqual(breaker.state, 'half-open');
+			assert.isFalse(breaker.allow());
+
+			breaker.success();
+			assert.strictEqual(breaker.state, 'closed');
+			assert.isTrue(breaker.allow());
+			assert.deepEqual(states, ['open', 'half-open', 'closed']);
+		});
+
+		it('Should reopen if the probe fails', function () {
+			breaker.failure();
+			breaker.failure();
+
+			clock.tick(1000);
+			assert.isTrue(breaker.allow());
+			breaker.failure();
+			assert.strictEqual(breaker.state, 'open');
+			assert.isFalse(breaker.allow());
+
+			clock.tick(1000);
+			assert.isTrue(breaker.allow());
+			assert.deepEqual(states, ['open', 'half-open', 'open', 'half-open']);
+		});
+	});
+
+	describe('withTimeout', function () {
+		it('Should resolve in time', async function () {
+			assert.strictEqual(await withTimeout(Promise.resolve('foo'), 100, 'get'), 'foo');
+			assert.strictEqual(await withTimeout(Promise.resolve('foo'), 0, 'get'), 'foo');
+		});
+
+		it('Should reject operations timing out', async function () {
+			const pending = new Promise(resolve => {
+				setTimeout(resolve, 1000);
+			});
+
+			try {
+				await withTimeout(pending, 10, 'get');
+				assert.fail('expected an error');
+			} catch (error) {
+				assert.instanceOf(error, StoreTimeoutError);
+				assert.strictEqual((error as StoreTimeoutError).operation, 'get');
+			}
+		});
+	});
+
+	describe('resolveTimeout', function () {
+		it('Should resolve the timeout of operations', function () {
+			assert.strictEqual(resolveTimeout(undefined, 'get'), 2000);
+			assert.strictEqual(resolveTimeout(500, 'touch'), 500);
+			assert.strictEqual(resolveTimeout(500, 'clear'), 0);
+			assert.strictEqual(resolveTimeout({ all: 1000 }, 'all'), 1000);
+			assert.strictEqual(resolveTimeout({ all: 1000 }, 'get'), 0);
+		});
+	});
+
+	describe('backoffDelay', function () {
+		it('Should compute jittered exponential delays', function () {
+			for (let attempt = 0; attempt < 10; attempt += 1) {
+				const delay = backoffDelay(attempt, 50, 1000);
+				assert.isAtLeast(delay, 0);
+				assert.isBelow(delay, Math.min(1000, 50 * 2 ** attempt));
+			}
+		});
+	});
+});
+/* eslint-enable func-names */
@@ -0,0 +1,100 @@
+import { assert } from 'chai';
+import * as sinon from 'sinon';
+import { ScriptManager } from '../lib/scripts';
+
+type Client = ConstructorParameters<typeof ScriptManager>[0];
+
+const callOptions = { keys: ['sessions:1234'], arguments: ['36e5'] };
+
+/* eslint-disable func-names */
+describe('scripts:', function () {
+	describe('ScriptManager', function () {
+		let client: {
+			eval: sinon.SinonStub;
+			evalSha: sinon.SinonStub;
+			fCall: sinon.SinonStub;
+			functionLoad: sinon.SinonStub;
+			scriptLoad: sinon.SinonStub;
+		};
+
+		beforeEach('create a fake client', function () {
+			client = {
+				eval: sinon.stub().resolves('eval'),
+				evalSha: sinon.stub().resolves('evalSha'),
+				fCall: sinon.stub().resolves('fCall'),
+				functionLoad: sinon.stub().resolves('OK'),
+				scriptLoad: sinon.stub().resolves('OK'),
+			};
+		});
+
+		it('Should call scripts by their digest', async function () {
+			const scripts = new ScriptManager(client as unknown as Client, ['touch']);
+			const result = await scripts.run('touch', callOptions);
+
+			assert.strictEqual(result, 'evalSha');
+			assert.match(client.evalSha.firstCall.args[0] as string, /^[0-9a-f]{40}$/);
+			assert.deepEqual(client.evalSha.firstCall.args[1], callOptions);
+			assert.isTrue(client.eval.notCalled);
+		});
+
+		it('Should reload scripts missing from the script cache', async function () {
+			client.evalSha.rejects(new Error('NOSCRIPT No matching script. Please use EVAL.'));
+			const scripts = new ScriptManager(client as unknown as Client, ['touch']);
+			const result = await scripts.run('touch', callOptions);
+
+			assert.strictEqual(result, 'eval');
+			assert.include(client.eval.firstCall.args[0] as string, 'PEXPIRE');
+		});
+
+		it('Should forward other script errors', async function () {
+			client.evalSha.rejects(new Error('ERR Error running script'));
+			const scripts = new ScriptManager(client as unknown as Client, ['touch']);
+
+			try {
+				await scripts.run('touch', callOptions);
+				assert.fail('expected an error');
+			} catch (error) {
+				assert.strictEqual((error as Error).message, 'ERR Error running script');
+			}
+		});
+
+		it('Should preload scripts into the script cache', async function () {
+			const scripts = new ScriptManager(client as unknown as Client, ['set', 'touch']);
+			await scripts.load();
+
+			assert.strictEqual(client.scriptLoad.callCount, 2);
+			assert.isTrue(client.functionLoad.notCalled);
+		});
+
+		it('Should call scripts as functions', async function () {
+			const scripts = new ScriptManager(client as unknown as Client, ['set', 'touch'], { useFunctions: true });
+			await scripts.run('touch', callOptions);
+			const result = await scripts.run('set', callOptions);
+
+			assert.strictEqual(result, 'fCall');
+			assert.strictEqual(client.functionLoad.callCount, 1);
+			assert.include(client.functionLoad.firstCall.args[0] as string, `#!lua name=${scripts.library}`);
+			assert.strictEqual(client.fCall.secondCall.args[0], scripts.functionName('set'));
+			assert.isTrue(client.evalSha.notCalled);
+		});
+
+		it('Should reload the function library if missing', async function () {
+			client.fCall.onFirstCall().rejects(new Error('ERR Function not found'));
+			const scripts = new ScriptManager(client as unknown as Client, ['touch'], { useFunctions: true });
+			const result = await scripts.run('touch', callOptions);
+
+			assert.strictEqual(result, 'fCall');
+			assert.strictEqual(client.functionLoad.callCount, 2);
+		});
+
+		it('Should fall back to cached scripts if functions are unsupported', async function () {
+			client.functionLoad.rejects(new Error("ERR unknown command 'FUNCTION'"));
+			const scripts = new ScriptManager(client as unknown as Client, ['touch'], { useFunctions: true });
+			const result = await scripts.run('touch', callOptions);
+
+			assert.strictEqual(result, 'evalSha');
+			assert.isTrue(client.fCall.notCalled);
+		});
+	});
+});
+/* eslint-enable func-names */
@@ -29,6 +29,22 @@ const testSerialization = (data: session.SessionData, i: number) => {
 	});
 };
 
+const testFieldSerialization = (data: session.SessionData, i: number) => {
+	let serialized: Record<string, string>;
+	let deserialized: session.SessionData;
+
+	it(`Should serialize session data fields as expected (${i})`, function () {
+		serialized = (serializer.stringifyFields as (value: session.SessionData) => Record<string, string>)(data);
+		assert.isObject(serialized);
+		Object.values(serialized).forEach(value => assert.isString(value));
+	});
+
+	it(`Should deserialize session data fields as expected (${i})`, function () {
+		deserialized = (serializer.parseFields as (fields: Record<string, string>) => session.SessionData)(serialized);
+		assert.deepEqual(data, deserialized);
+	});
+};
+
 describe('serializer:', function () {
 	/* eslint-disable mocha/no-setup-in-describe */
 	const testCases: session.SessionData[] = [
@@ -36,6 +52,7 @@ describe('serializer:', function () {
 		createFakeSession({}, 0, 0),
 		createFakeSession({ a: 'foo', b: 42, c: true, d: false, e: null }, 0, 0),
 		createFakeSession({ a: { b: { c: 'd' } } }),
+		createFakeSession({ createdAt: new Date(0) }, 0, 0),
 	];
 
 	describe('serialize and deserialize', function () {
@@ -43,6 +60,12 @@ describe('serializer:', function () {
 			testSerialization(testCase, i);
 		});
 	});
+
+	describe('serialize and deserialize fields', function () {
+		testCases.forEach((testCase, i) => {
+			testFieldSerialization(testCase, i);
+		});
+	});
 	/* eslint-enable mocha/no-setup-in-describe */
 });
 /* eslint-enable func-names */